@@ -1,11 +1,15 @@
 import { Command } from 'commander';
 import path from 'path';
 import fs from 'fs';
+import { Project } from 'ts-morph';
 import { buildUsageGraph, calculateGraphScore } from './lib/buildUsageGraph.js';
+import { calculateTypeCheckDelta } from './lib/typeCheckDelta.js';
 import { analyzeBreakingChanges } from './lib/analyzeBreakingChanges.js';
 import { generateReport } from "./lib/report.js";
 import { detectGithubContext } from "./lib/setup/detectGithub.js";
 import { loadProjectWithFallback, findRepoRoot } from "./lib/setup/loadProjectWithFallback.js";
+import { loadBaseProject } from "./lib/setup/loadBaseProject.js";
+import { buildPublicApiSurface, getPackageEntryPoints, mergePublicApiSurfaces } from "./lib/setup/getPublicApiSurface.js";
 import { GitService } from "./lib/services/index.js";
 import { loadConfig } from "./lib/config.js";
 
@@ -22,6 +26,7 @@ async function runCLI() {
     .option("--format <type>", "Report format: 'markdown' or 'plain' (default: plain)", "plain")
     .option('--no-suggestions', 'Suppress actionable suggestions in the output')
     .option("--no-tests", "Exclude tests from scoring")
+    .option("--type-check", "Report type errors introduced since the base ref in changed files and their dependents")
     .option('--verbose', 'Enable verbose logging')
     .helpOption("-h, --help", "Show CLI usage information")
     .parse(process.argv);
@@ -84,26 +89,61 @@ async function runCLI() {
     // Rebuild usage graph across whole repo (optionally could filter here too)
     const graph = await buildUsageGraph(project, filteredFiles, { verbose: options.verbose });
 
+    const baseRef = options.since || "origin/main";
+    const getOldCode = (file: string) => gitService.getFileFromGit(baseRef, file).content;
+
+    // Without the base tree, old declarations are analyzed on their own and imported types become `any`
+    let baseProject: Project | undefined;
+    try {
+      baseProject = loadBaseProject(gitService, baseRef, { rootDir, verbose: options.verbose });
+    } catch (err) {
+      if (options.verbose) console.warn(`Could not load ${baseRef}, comparing changed files in isolation:`, err);
+    }
+
+    // Computed before analysis swaps changed files into the project. The base-ref surface still
+    // knows about public exports that HEAD removed.
+    const headApi = buildPublicApiSurface(project, getPackageEntryPoints(project, rootDir), rootDir);
+    const publicApi = baseProject
+      ? mergePublicApiSurfaces(headApi, buildPublicApiSurface(baseProject, getPackageEntryPoints(baseProject, rootDir), rootDir))
+      : headApi;
+
     const breakingChanges = analyzeBreakingChanges(changedFilesWithStatus, project, {
-      getOldCode: (file) => {
-        const result = gitService.getFileFromGit(options.since || "origin/main", file);
-        return result.content;
-      },
+      getOldCode,
       getNewCode: (file) => {
         const result = gitService.getCurrentFileContent(file);
         return result.content;
       },
       verbose: options.verbose || false,
-      includeTests: options.tests
+      includeTests: options.tests,
+      publicApi,
+      usageGraph: graph,
+      baseProject,
     }, config);
 
-    const graphScore = calculateGraphScore(graph, changedFiles, context, { verbose: options.verbose || false }, config);
-    const totalRiskScore = breakingChanges.totalScore + graphScore.totalScore;
+    // Cosmetic changes can't affect dependents either
+    const cosmeticFiles = new Set(breakingChanges.skippedFiles.cosmetic);
+    const scoredFiles = changedFiles.filter(file => !cosmeticFiles.has(file));
+
+    const graphScore = calculateGraphScore(graph, scoredFiles, context, { verbose: options.verbose || false }, config);
+
+    const typeCheck = options.typeCheck || config.analysis.typeCheck
+      ? calculateTypeCheckDelta(
+          project,
+          changedFilesWithStatus.filter(file => !cosmeticFiles.has(file.path)),
+          graph,
+          getOldCode,
+          { verbose: options.verbose || false, baseProject },
+          config
+        )
+      : undefined;
+
+    const totalRiskScore = breakingChanges.totalScore + graphScore.totalScore + (typeCheck?.totalScore ?? 0);
 
     const data = {
       totalRiskScore,
       breakingChanges,
       graphScore,
+      typeCheck,
       lineStats,
     }
     
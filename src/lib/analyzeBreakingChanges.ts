@@ -1,35 +1,109 @@
+import path from "path";
 import {
   Project,
   FunctionDeclaration,
+  ArrowFunction,
+  FunctionExpression,
+  Expression,
+  MethodDeclaration,
+  MethodSignature,
+  ConstructorDeclaration,
+  ClassDeclaration,
+  PropertyDeclaration,
+  GetAccessorDeclaration,
+  SetAccessorDeclaration,
+  ParameterDeclaration,
+  TypeParameterDeclaration,
   InterfaceDeclaration,
+  EnumDeclaration,
+  Scope,
+  Node,
+  SyntaxKind,
+  TypeAliasDeclaration,
   Type,
   SourceFile,
   TypeFormatFlags,
+  VariableDeclaration,
+  Symbol as TsSymbol,
+  ts,
 } from "ts-morph";
 import { ScoredRisk, RiskFactorType } from "./constants.js";
 import { FileChange } from "./setup/getChangedFilesWithStatus.js";
 import { FileFilter } from "./utils/index.js";
 import { ResolvedConfig } from "./config.js";
+import { PublicApiSurface, findPublicEntryPoint } from "./setup/getPublicApiSurface.js";
+import { UsageGraph, calculateBlastRadius, findImportersOfPath, findImportersOfSymbol } from "./buildUsageGraph.js";
+import { formatImportList } from "./setup/detectGithub.js";
 
 export type FileContentProvider = {
   getOldCode: (filePath: string) => string;
   getNewCode: (filePath: string) => string;
 };
 
+type DeclarationChange = {
+  factor: RiskFactorType;
+  message: string;
+  subject?: string;
+};
+
+/** A change found by a whole-file pass, already attributed to the export it affects */
+type ExportChange = DeclarationChange & { subject: string };
+
+type DangerousTypeUse = {
+  line: number;
+  description: string;
+  text: string;
+};
+
+type JsxEventHandler = {
+  component: string;
+  element: string;
+  event: string;
+  handler: Node | undefined;
+  /** Position among same-tag elements in the component */
+  index: number;
+  /** Value of a `key`, `id` or `name` attribute on the element, if it has one */
+  stableKey: string | undefined;
+};
+
+type SideEffect = {
+  line: number;
+  description: string;
+  text: string;
+};
+
+type ThrowSite = {
+  line: number;
+  kind: "throw" | "rejection";
+  text: string;
+};
+
+type HookCall = {
+  component: string;
+  hook: string;
+  line: number;
+  dependencies: string[] | undefined;
+};
+
+type FunctionLike = FunctionDeclaration | MethodDeclaration | MethodSignature | ArrowFunction | FunctionExpression;
+
+type ClassMember = MethodDeclaration | PropertyDeclaration | GetAccessorDeclaration | SetAccessorDeclaration;
+
 export function analyzeBreakingChanges(
   files: FileChange[],
   project: Project,
-  options: FileContentProvider & { verbose: boolean, includeTests: boolean },
+  options: FileContentProvider & { verbose: boolean, includeTests: boolean, publicApi?: PublicApiSurface, usageGraph?: UsageGraph, baseProject?: Project },
   config: ResolvedConfig
-): { issues: string[]; scores: any; totalScore: number; skippedFiles: { unsupported: string[], failed: string[], empty: string[], tests: string[] } } {
+): { issues: string[]; scores: any; totalScore: number; skippedFiles: { unsupported: string[], failed: string[], empty: string[], tests: string[], cosmetic: string[] } } {
   const issues: string[] = [];
   const scores: any = {};
   let totalScore: number = 0;
-  const skippedFiles: { unsupported: string[], failed: string[], empty: string[], tests: string[] } = {
+  const skippedFiles: { unsupported: string[], failed: string[], empty: string[], tests: string[], cosmetic: string[] } = {
     unsupported: [],
     failed: [],
     empty: [],
-    tests: []
+    tests: [],
+    cosmetic: []
   };
 
   const testFileFilter = FileFilter.createTestFileFilter();
@@ -38,6 +112,7 @@ export function analyzeBreakingChanges(
   );
 
   const sourceFileFilter = FileFilter.createSourceFileFilter();
+  const changedPaths = new Set(files.map(f => path.resolve(f.path)));
 
   for (const file of files) {
 
@@ -58,21 +133,6 @@ export function analyzeBreakingChanges(
       continue;
     }
 
-    const oldText = options.getOldCode(file.path);
-    const newText = options.getNewCode(file.path);
-
-    if (oldText === "Skipped" || newText === "Skipped") {
-      if (options.verbose) console.log("skipping failed fetch: " + file.path);
-      skippedFiles["failed"].push(file.path);
-      continue;
-    }
-
-    if (oldText.trim() === "" || newText.trim() === "") {
-      if (options.verbose) console.log("skipping empty file: " + file.path);
-      skippedFiles["empty"].push(file.path);
-      continue;
-    }
-    
     // Flag removed files
     if (file.status === 'D') {
       issues.push("File removed");
@@ -87,9 +147,44 @@ export function analyzeBreakingChanges(
         ]
       };
       totalScore += config.riskWeights[RiskFactorType.FileRemoved];
+
+      // Importers left in the final tree will fail to resolve
+      const importers = options.usageGraph ? findImportersOfPath(options.usageGraph, path.resolve(file.path), project.getCompilerOptions()) : [];
+      if (importers.length > 0) {
+        const explanation = `File \`${file.path}\` was removed but is still imported by ${listFiles(importers)}`;
+        issues.push(`Dangling import: ${explanation}`);
+        scores[file.path].scores.push({
+          subject: file.path,
+          factor: RiskFactorType.DanglingImport,
+          explanation,
+        });
+        totalScore += config.riskWeights[RiskFactorType.DanglingImport];
+      }
       continue; // no need to fetch contents or analyze further
     }
 
+    const oldText = options.getOldCode(file.renamedFrom ?? file.path);
+    const newText = options.getNewCode(file.path);
+
+    if (oldText === "Skipped" || newText === "Skipped") {
+      if (options.verbose) console.log("skipping failed fetch: " + file.path);
+      skippedFiles["failed"].push(file.path);
+      continue;
+    }
+
+    if (oldText.trim() === "" || newText.trim() === "") {
+      if (options.verbose) console.log("skipping empty file: " + file.path);
+      skippedFiles["empty"].push(file.path);
+      continue;
+    }
+    
+    // Reformatting and comment edits can't change behavior, so they score nothing
+    if (file.status === 'M' && isCosmeticChange(oldText, newText, file.path)) {
+      if (options.verbose) console.log("skipping cosmetic change: " + file.path);
+      skippedFiles.cosmetic.push(file.path);
+      continue;
+    }
+
     // Flag new files
     if (file.status === 'A' || file.status === 'U') {
       issues.push("New file");
@@ -120,19 +215,59 @@ export function analyzeBreakingChanges(
         ]
       };
       totalScore += config.riskWeights[RiskFactorType.FileRenamed];
+
+      if (options.usageGraph) {
+        const compilerOptions = project.getCompilerOptions();
+        const missed = findImportersOfPath(options.usageGraph, path.resolve(file.renamedFrom), compilerOptions);
+        const updated = findImportersOfPath(options.usageGraph, path.resolve(file.path), compilerOptions)
+          .filter(importer => changedPaths.has(importer));
+
+        if (updated.length > 0) {
+          scores[file.path].scores[0].explanation += `; importers updated in this change: ${listFiles(updated)}`;
+        }
+        if (missed.length > 0) {
+          const explanation = `File \`${file.path}\` was renamed from \`${file.renamedFrom}\` but is still imported under the old path by ${listFiles(missed)}`;
+          issues.push(`Dangling import: ${explanation}`);
+          scores[file.path].scores.push({
+            subject: file.path,
+            factor: RiskFactorType.DanglingImport,
+            explanation,
+          });
+          totalScore += config.riskWeights[RiskFactorType.DanglingImport];
+        }
+      }
     }
   
     
-    const oldProject = new Project();
-    const oldSourceFile = oldProject.createSourceFile(file.path, oldText, {
-      overwrite: true,
-    });
+    // The base-ref project resolves imports like HEAD does; a bare project leaves imported types as `any`
+    const oldPath = file.renamedFrom ?? file.path;
+    const oldSourceFile = options.baseProject
+      ? options.baseProject.getSourceFile(path.resolve(oldPath))
+        ?? options.baseProject.createSourceFile(path.resolve(oldPath), oldText, { overwrite: true })
+      : new Project().createSourceFile(file.path, oldText, { overwrite: true });
 
     const newSourceFile = project.createSourceFile(file.path, newText, {
       overwrite: true,
     });
     
-    const { issues: fileIssues, changedExports, scores: fileScores, fileScore } = analyzeFile(newSourceFile, oldSourceFile, project, config);
+    const { issues: fileIssues, changedExports, scores: fileScores, fileScore: analyzedScore } = analyzeFile(newSourceFile, oldSourceFile, project, config, options.usageGraph);
+    let fileScore = analyzedScore;
+
+    // Library packages get stricter scoring for anything consumers can reach through an entry point
+    if (options.publicApi) {
+      for (const name of new Set(changedExports)) {
+        const entryPoint = findPublicEntryPoint(options.publicApi, newSourceFile.getFilePath(), name);
+        if (!entryPoint) continue;
+
+        fileIssues.push(`Public API: \`${name}\` is exported from \`${entryPoint}\``);
+        fileScores.push({
+          subject: name,
+          factor: RiskFactorType.PublicAPI,
+          explanation: `\`${name}\` is part of the public API via \`${entryPoint}\``,
+        });
+        fileScore += config.riskWeights[RiskFactorType.PublicAPI];
+      }
+    }
 
     if (fileIssues.length > 0) {
       issues.push(`\n\n### \`${file.path}\`\n` + fileIssues.map(i => `- ${i}`).join("\n"));
@@ -140,7 +275,8 @@ export function analyzeBreakingChanges(
 
     if (fileScores.length > 0) {
       scores[file.path] = {
-        scores: fileScores,
+        // Keep the added/renamed entries recorded above
+        scores: [...(scores[file.path]?.scores ?? []), ...fileScores],
         fileScore,
       };
       totalScore += fileScore;
@@ -186,7 +322,8 @@ export function analyzeFile(
   newSourceFile: SourceFile,
   oldSourceFile: SourceFile,
   project: Project,
-  config: ResolvedConfig
+  config: ResolvedConfig,
+  usageGraph?: UsageGraph
 ): { issues: string[]; changedExports: string[]; scores: ScoredRisk[]; fileScore: number } {
   const issues: string[] = [];
   const changedExports: string[] = []; // Collect for test detection
@@ -263,9 +400,42 @@ export function analyzeFile(
     }
   }
     */
+  const renames = matchRenamedExports(oldExports, newExports);
+  const renamedTo = new Set(renames.values());
+
   for (const name of allNames) {
     const oldDecl = oldExports.get(name)?.[0];
     const newDecl = newExports.get(name)?.[0];
+
+    // Renamed: reported once under the old name instead of as a removal plus an addition
+    const newName = renames.get(name);
+    if (newName) {
+      const importers = usageGraph ? findImportersOfSymbol(usageGraph, newSourceFile.getFilePath(), name) : [];
+      const importerNote = importers.length > 0 ? `; still imported as \`${name}\` by ${formatImportList(importers)}` : "";
+
+      changedExports.push(name, newName);
+      issues.push(`Export \`${name}\` was renamed to \`${newName}\`${importerNote}`);
+      scores.push({
+        subject: name,
+        factor: RiskFactorType.ExportRenamed,
+        explanation: `Export \`${name}\` was renamed to \`${newName}\`${importerNote}`,
+      });
+      fileScore += config.riskWeights[RiskFactorType.ExportRenamed];
+
+      // Importers of the old name break the same way they would if the export had been removed
+      if (importers.length > 0) {
+        const explanation = `Export \`${name}\` was renamed to \`${newName}\` but is still imported under the old name by ${listFiles(importers)}`;
+        issues.push(`Dangling import: ${explanation}`);
+        scores.push({
+          subject: name,
+          factor: RiskFactorType.DanglingImport,
+          explanation,
+        });
+        fileScore += config.riskWeights[RiskFactorType.DanglingImport];
+      }
+      continue;
+    }
+    if (renamedTo.has(name)) continue;
   
     // Added
     if (!oldDecl && newDecl) {
@@ -283,15 +453,34 @@ export function analyzeFile(
   
     // Removed
     if (oldDecl && !newDecl) {
+      // Consumers were already told to move off a deprecated export, so removing it scores lower
+      const deprecation = getDeprecation(oldDecl);
+      const factor = deprecation === undefined ? RiskFactorType.ExportRemoved : RiskFactorType.DeprecatedExportRemoved;
+      const explanation = deprecation === undefined
+        ? `Export \`${name}\` was removed`
+        : `Export \`${name}\` was removed after being deprecated${formatDeprecationReason(deprecation)}`;
+
       changedExports.push(name);
-      issues.push(`Export \`${name}\` was removed`);
+      issues.push(explanation);
       scores.push({
         subject: name,
-        factor: RiskFactorType.ExportRemoved,
+        factor,
         //points: config.riskWeights[RiskFactorType.ExportRemoved],
-        explanation: `Export \`${name}\` was removed`,
+        explanation,
       });
-      fileScore += config.riskWeights[RiskFactorType.ExportRemoved];
+      fileScore += config.riskWeights[factor];
+
+      const importers = usageGraph ? findImportersOfSymbol(usageGraph, newSourceFile.getFilePath(), name) : [];
+      if (importers.length > 0) {
+        const explanation = `Export \`${name}\` was removed but is still imported by ${listFiles(importers)}`;
+        issues.push(`Dangling import: ${explanation}`);
+        scores.push({
+          subject: name,
+          factor: RiskFactorType.DanglingImport,
+          explanation,
+        });
+        fileScore += config.riskWeights[RiskFactorType.DanglingImport];
+      }
       continue;
     }
   
@@ -299,25 +488,62 @@ export function analyzeFile(
       continue;
     }
   
+    const deprecation = getDeprecation(newDecl);
+    if (deprecation !== undefined && getDeprecation(oldDecl) === undefined) {
+      const explanation = `Export \`${name}\` was deprecated${formatDeprecationReason(deprecation)}`;
+      changedExports.push(name);
+      issues.push(explanation);
+      scores.push({
+        subject: name,
+        factor: RiskFactorType.ExportDeprecated,
+        explanation,
+      });
+      fileScore += config.riskWeights[RiskFactorType.ExportDeprecated];
+    }
+
     const kindOld = oldDecl.getKindName();
     const kindNew = newDecl.getKindName();
+
+    // `export const fn = () => ...` is compared the same way as `export function fn()`
+    const oldFn = resolveCallable(oldDecl);
+    const newFn = resolveCallable(newDecl);
   
-    if (kindOld === "FunctionDeclaration" && kindNew === "FunctionDeclaration") {
+    // React components are diffed by their props rather than their raw parameter types
+    const oldComponentProps = oldFn ? getComponentPropsType(oldDecl, oldFn) : undefined;
+    const newComponentProps = newFn ? getComponentPropsType(newDecl, newFn) : undefined;
+
+    if (oldFn && newFn && oldComponentProps && newComponentProps) {
+      const changes = [
+        ...compareObjectProperties(oldComponentProps.type, newComponentProps.type).map(c => ({
+          ...c,
+          factor: RiskFactorType.PropsChanged,
+        })),
+        ...compareParameters(oldFn.getParameters().slice(1), newFn.getParameters().slice(1), 1),
+      ];
+      if (changes.length > 0) {
+        changedExports.push(name);
+        issues.push(...changes.map(c => `Component \`${name}\`: ${c.message}`));
+        scores.push(...changes.map(c => ({
+          subject: name,
+          factor: c.factor,
+          explanation: `Component \`${name}\`: ${c.message}`,
+        })));
+        fileScore += changes.reduce((sum, c) => sum + config.riskWeights[c.factor], 0);
+      }
+    } else if (oldFn && newFn) {
       const changes = compareFunctionSignature(
-        oldDecl as FunctionDeclaration,
-        newDecl as FunctionDeclaration,
-        project
+        oldFn,
+        newFn
       );
       if (changes.length > 0) {
         changedExports.push(name);
-        issues.push(...changes.map(c => `Function \`${name}\`: ${c}`));
+        issues.push(...changes.map(c => `Function \`${name}\`: ${c.message}`));
         scores.push(...changes.map(c => ({
           subject: name,
-          factor: RiskFactorType.ReturnTypeChanged,
-          // config.riskWeights[RiskFactorType.ReturnTypeChanged],
-          explanation: `Return type changed in \`${name}\``,
+          factor: c.factor,
+          explanation: `Function \`${name}\`: ${c.message}`,
         })));
-        fileScore += changes.length * config.riskWeights[RiskFactorType.ReturnTypeChanged];
+        fileScore += changes.reduce((sum, c) => sum + config.riskWeights[c.factor], 0);
       }
     } else if (kindOld === "InterfaceDeclaration" && kindNew === "InterfaceDeclaration") {
       const changes = compareInterfaces(
@@ -326,109 +552,1633 @@ export function analyzeFile(
       );
       if (changes.length > 0) {
         changedExports.push(name);
-        issues.push(...changes.map(c => `Interface \`${name}\`: ${c}`));
+        issues.push(...changes.map(c => `Interface \`${name}\`: ${c.message}`));
         scores.push(...changes.map(c => ({
           subject: name,
-          factor: RiskFactorType.PropsChanged,
-          //points: config.riskWeights[RiskFactorType.PropsChanged],
-          explanation: `Props changed in \`${name}\``,
+          factor: c.factor,
+          explanation: `Interface \`${name}\`: ${c.message}`,
+        })));
+        fileScore += changes.reduce((sum, c) => sum + config.riskWeights[c.factor], 0);
+      }
+    } else if (kindOld === "TypeAliasDeclaration" && kindNew === "TypeAliasDeclaration") {
+      const changes = compareTypeAliases(
+        oldDecl as TypeAliasDeclaration,
+        newDecl as TypeAliasDeclaration
+      );
+      if (changes.length > 0) {
+        changedExports.push(name);
+        issues.push(...changes.map(c => `Type \`${name}\`: ${c.message}`));
+        scores.push(...changes.map(c => ({
+          subject: name,
+          factor: c.factor,
+          explanation: `Type \`${name}\`: ${c.message}`,
+        })));
+        fileScore += changes.reduce((sum, c) => sum + config.riskWeights[c.factor], 0);
+      }
+    } else if (kindOld === "ClassDeclaration" && kindNew === "ClassDeclaration") {
+      const changes = compareClasses(
+        oldDecl as ClassDeclaration,
+        newDecl as ClassDeclaration
+      );
+      if (changes.length > 0) {
+        changedExports.push(name);
+        issues.push(...changes.map(c => `Class \`${name}\`: ${c.message}`));
+        scores.push(...changes.map(c => ({
+          subject: c.subject ?? name,
+          factor: c.factor,
+          explanation: `Class \`${name}\`: ${c.message}`,
+        })));
+        fileScore += changes.reduce((sum, c) => sum + config.riskWeights[c.factor], 0);
+      }
+    } else if (kindOld === "EnumDeclaration" && kindNew === "EnumDeclaration") {
+      const changes = compareEnums(
+        oldDecl as EnumDeclaration,
+        newDecl as EnumDeclaration
+      );
+      if (changes.length > 0) {
+        changedExports.push(name);
+        issues.push(...changes.map(c => `Enum \`${name}\`: ${c.message}`));
+        scores.push(...changes.map(c => ({
+          subject: name,
+          factor: c.factor,
+          explanation: `Enum \`${name}\`: ${c.message}`,
         })));
-        fileScore += changes.length * config.riskWeights[RiskFactorType.PropsChanged];
+        fileScore += changes.reduce((sum, c) => sum + config.riskWeights[c.factor], 0);
       }
     } else {
      // TODO: Handle other kinds
     }
   }
-  
+
+  // Whole-file passes attribute each change to the export it affects
+  const recordExportChanges = (kind: string, changes: ExportChange[]) => {
+    for (const change of changes) {
+      if (!changedExports.includes(change.subject)) changedExports.push(change.subject);
+      const explanation = `${kind} \`${change.subject}\`: ${change.message}`;
+      issues.push(explanation);
+      scores.push({
+        subject: change.subject,
+        factor: change.factor,
+        explanation,
+      });
+      fileScore += config.riskWeights[change.factor];
+    }
+  };
+
+  if (/\.(t|j)sx$/.test(newSourceFile.getFilePath())) {
+    recordExportChanges("Component", [
+      ...compareJsxEventHandlers(oldSourceFile, newSourceFile),
+      ...compareHookDependencies(oldSourceFile, newSourceFile),
+    ]);
+  }
+  recordExportChanges("Function", findNewThrowSites(oldExports, newExports));
+  recordExportChanges("Export", findChangedHelperDependents(oldSourceFile, newSourceFile));
+
+  const sideEffects = findNewTopLevelSideEffects(oldSourceFile, newSourceFile);
+  if (sideEffects.length > 0) {
+    // Module-level code runs in every importer on load, so it grows with the blast radius (log-scaled)
+    const radius = usageGraph ? calculateBlastRadius(usageGraph, newSourceFile.getFilePath()) : 0;
+    const points = Number((config.riskWeights[RiskFactorType.TopLevelSideEffect] * (1 + Math.log2(1 + radius))).toFixed(2));
+    const radiusNote = radius > 0 ? ` (runs on load in ${radius} dependent file${radius === 1 ? "" : "s"})` : "";
+
+    for (const effect of sideEffects) {
+      const explanation = `${effect.description} at line ${effect.line}: \`${effect.text}\`${radiusNote}`;
+      issues.push(`Side effect: ${explanation}`);
+      scores.push({
+        subject: `${newSourceFile.getBaseName()}:${effect.line}`,
+        factor: RiskFactorType.TopLevelSideEffect,
+        points,
+        explanation,
+      });
+      fileScore += points;
+    }
+  }
+
+  for (const use of findNewDangerousTypeUses(oldSourceFile, newSourceFile)) {
+    const explanation = `${use.description} at line ${use.line}: \`${use.text}\``;
+    issues.push(`Type safety: ${explanation}`);
+    scores.push({
+      subject: `${newSourceFile.getBaseName()}:${use.line}`,
+      factor: RiskFactorType.DangerousTypeUse,
+      explanation,
+    });
+    fileScore += config.riskWeights[RiskFactorType.DangerousTypeUse];
+  }
 
   return { issues, changedExports, scores, fileScore };
 }
 
-function isTypeNarrowed(oldType: Type, newType: Type, project: Project): boolean {
-  const checker = project.getTypeChecker();
+/**
+ * Text of the declaration's JSDoc `@deprecated` tag ("" when the tag has no text),
+ * or undefined when it isn't deprecated.
+ */
+function getDeprecation(decl: Node): string | undefined {
+  // `export const x = ...` carries its JSDoc on the variable statement
+  const documented = Node.isVariableDeclaration(decl) ? decl.getVariableStatement() : decl;
+  if (!documented || !Node.isJSDocable(documented)) return undefined;
 
-  const oldToNew = checker.isTypeAssignableTo(oldType, newType);
-  const newToOld = checker.isTypeAssignableTo(newType, oldType);
+  for (const doc of documented.getJsDocs()) {
+    const tag = doc.getTags().find(t => t.getTagName() === "deprecated");
+    if (tag) return tag.getCommentText()?.trim() ?? "";
+  }
+  return undefined;
+}
 
-  return newToOld && !oldToNew;
+function formatDeprecationReason(reason: string): string {
+  return reason ? `: ${reason.replace(/\s+/g, " ")}` : "";
 }
 
-function compareFunctionSignature(
-  oldFn: FunctionDeclaration,
-  newFn: FunctionDeclaration,
-  project: Project
-): string[] {
-  const issues: string[] = [];
+/**
+ * True when both versions parse to the same syntax tree once whitespace, comments (other than
+ * `@deprecated` tags), semicolons, trailing commas, redundant parentheses and quote style are ignored.
+ */
+function isCosmeticChange(oldText: string, newText: string, filePath: string): boolean {
+  return getSyntaxFingerprint(oldText, filePath) === getSyntaxFingerprint(newText, filePath);
+}
 
-  const oldRet = !!oldFn && "getReturnType" in oldFn ? oldFn.getReturnType() : undefined;
-  const newRet = !!newFn && "getReturnType" in newFn ? newFn.getReturnType() : undefined;
-  if (!oldRet && !newRet) return [];
+function getSyntaxFingerprint(text: string, filePath: string): string {
+  const scriptKind = filePath.endsWith(".tsx") ? ts.ScriptKind.TSX
+    : filePath.endsWith(".jsx") ? ts.ScriptKind.JSX
+    : filePath.endsWith(".js") ? ts.ScriptKind.JS
+    : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, false, scriptKind);
+  const parts: string[] = [];
 
-  if (oldRet && newRet && isTypeNarrowed(oldRet, newRet, project)) {
-    issues.push(`Return type narrowed from \`${oldRet.getText(undefined, TypeFormatFlags.UseFullyQualifiedType)}\` to \`${newRet.getText(undefined, TypeFormatFlags.UseFullyQualifiedType)}\``);
-  } 
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxText(node)) {
+      const jsxText = node.text.replace(/\s+/g, " ").trim();
+      if (jsxText) parts.push(`text:${jsxText}`);
+      return;
+    }
 
-  const oldParams = !!oldFn && "getParameters" in oldFn ? oldFn.getParameters() : [];
-  const newParams = !!newFn && "getParameters" in newFn ? newFn.getParameters() : [];
+    // Redundant parentheses don't change the tree shape; meaningful ones change it anyway
+    if (ts.isParenthesizedExpression(node) || ts.isParenthesizedTypeNode(node)) {
+      ts.forEachChild(node, visit);
+      return;
+    }
+
+    parts.push(String(node.kind));
+    // Identifiers and literals carry their cooked value, so `'a'` and `"a"` compare equal
+    if (!ts.isSourceFile(node) && "text" in node && typeof node.text === "string") parts.push(JSON.stringify(node.text));
+
+    // Syntax that lives on node properties rather than child nodes
+    if (ts.isVariableDeclarationList(node)) parts.push(`flags:${node.flags & ts.NodeFlags.BlockScoped}`);
+    if (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node) || ts.isTypeOperatorNode(node)) {
+      parts.push(`op:${node.operator}`);
+    }
+    if (ts.isHeritageClause(node)) parts.push(`token:${node.token}`);
+    // `@deprecated` is the one comment that changes what consumers of the API see
+    if (!ts.isSourceFile(node) && ts.getLeadingCommentRanges(text, node.pos)?.some(c => /@deprecated\b/.test(text.slice(c.pos, c.end)))) {
+      parts.push("deprecated");
+    }
+    if (ts.isExportAssignment(node) && node.isExportEquals) parts.push("export=");
+    if ((ts.isImportClause(node) || ts.isImportSpecifier(node) || ts.isImportEqualsDeclaration(node) ||
+      ts.isExportDeclaration(node) || ts.isExportSpecifier(node)) && node.isTypeOnly) {
+      parts.push("type-only");
+    }
+
+    parts.push("(");
+    ts.forEachChild(node, visit);
+    parts.push(")");
+  };
 
-  if (!oldParams && !newParams) return [];
+  visit(sourceFile);
+  return parts.join(" ");
+}
 
-  if (newParams.length < oldParams.length) {
-    issues.push(`Removed ${oldParams.length - newParams.length} parameter(s)`);
-  } else if (newParams.length > oldParams.length) {
-    issues.push(`Added ${newParams.length - oldParams.length} parameter(s)`);
-  } else {
-    for (let i = 0; i < oldParams.length; i++) {
-      const oldType = oldParams[i].getType();
-      const newType = newParams[i].getType();
+const RENAME_SIMILARITY_THRESHOLD = 0.8;
 
-      if (oldType && newType && isTypeNarrowed(oldType, newType, project)) {
-        issues.push(
-          `Parameter ${i + 1} type narrowed from \`${oldType.getText(undefined, TypeFormatFlags.UseFullyQualifiedType)}\` to \`${newType.getText(undefined, TypeFormatFlags.UseFullyQualifiedType)}\``
-        );
+/**
+ * Pairs removed exports with added ones of the same kind whose declaration is near-identical
+ * once the name is swapped, returning old name → new name.
+ */
+function matchRenamedExports(
+  oldExports: ReadonlyMap<string, Node[]>,
+  newExports: ReadonlyMap<string, Node[]>
+): Map<string, string> {
+  const renames = new Map<string, string>();
+  const added = [...newExports.keys()].filter(name => !oldExports.has(name));
+
+  for (const [oldName, [oldDecl]] of oldExports) {
+    if (newExports.has(oldName) || !oldDecl) continue;
+
+    let bestMatch: { name: string; similarity: number } | undefined;
+    for (const newName of added) {
+      const newDecl = newExports.get(newName)?.[0];
+      if (!newDecl || newDecl.getKind() !== oldDecl.getKind() || [...renames.values()].includes(newName)) continue;
+
+      const renamedText = oldDecl.getText().replace(/[A-Za-z_$][\w$]*/g, token => token === oldName ? newName : token);
+      const similarity = getTokenSimilarity(renamedText, newDecl.getText());
+      if (similarity >= RENAME_SIMILARITY_THRESHOLD && similarity > (bestMatch?.similarity ?? 0)) {
+        bestMatch = { name: newName, similarity };
       }
     }
+
+    if (bestMatch) renames.set(oldName, bestMatch.name);
   }
 
-  return issues;
+  return renames;
 }
 
-function compareInterfaces(
-  oldInterface: InterfaceDeclaration,
-  newInterface: InterfaceDeclaration
-): string[] {
-  const issues: string[] = [];
+/** Dice coefficient over token bigrams, so whitespace and small edits barely move the score */
+function getTokenSimilarity(a: string, b: string): number {
+  const bigrams = (text: string) => {
+    const tokens = text.match(/[A-Za-z_$][\w$]*|\d+|\S/g) ?? [];
+    const counts = new Map<string, number>();
+    for (let i = 0; i < tokens.length - 1; i++) {
+      const bigram = `${tokens[i]} ${tokens[i + 1]}`;
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+    return { counts, size: Math.max(tokens.length - 1, 0) };
+  };
 
-  const oldProps = !!oldInterface && "getProperties" in oldInterface ? Object.fromEntries(
-    oldInterface.getProperties().map(p => [p.getName(), p])
-  ) : {};
-  const newProps = !!newInterface && "getProperties" in newInterface ? Object.fromEntries(
-    newInterface.getProperties().map(p => [p.getName(), p])
-  ) : {};
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.size === 0 || right.size === 0) return a.trim() === b.trim() ? 1 : 0;
 
-  if (!oldProps && !newProps) return [];
+  let overlap = 0;
+  for (const [bigram, count] of left.counts) {
+    overlap += Math.min(count, right.counts.get(bigram) ?? 0);
+  }
+  return (2 * overlap) / (left.size + right.size);
+}
 
-  for (const name in oldProps) {
-    if (!newProps[name]) {
-      issues.push(`Prop \`${name}\` was removed`);
-      continue;
-    }
+function resolveCallable(decl: Node): FunctionLike | undefined {
+  if (Node.isFunctionDeclaration(decl)) return decl;
+  if (!Node.isVariableDeclaration(decl)) return undefined;
 
-    const wasOptional = oldProps[name].hasQuestionToken();
-    const isOptional = newProps[name].hasQuestionToken();
+  const initializer = decl.getInitializer();
+  return initializer ? unwrapCallableExpression(initializer) : undefined;
+}
 
-    if (wasOptional && !isOptional) {
-      issues.push(`Prop \`${name}\` is now required`);
+const COMPONENT_WRAPPERS = new Set(["memo", "forwardRef", "React.memo", "React.forwardRef"]);
+
+/**
+ * Digs the function out of common wrappers: parentheses, `as`/`satisfies` casts, and the
+ * `memo(...)`/`forwardRef(...)` HOCs. Other calls (`createStore(() => ...)`) return something
+ * other than their callback, so they're left alone.
+ */
+function unwrapCallableExpression(expr: Expression): ArrowFunction | FunctionExpression | undefined {
+  if (Node.isArrowFunction(expr) || Node.isFunctionExpression(expr)) return expr;
+
+  if (Node.isParenthesizedExpression(expr) || Node.isAsExpression(expr) || Node.isSatisfiesExpression(expr)) {
+    return unwrapCallableExpression(expr.getExpression());
+  }
+
+  if (Node.isCallExpression(expr) && COMPONENT_WRAPPERS.has(expr.getExpression().getText())) {
+    const [firstArg] = expr.getArguments();
+    return firstArg && Node.isExpression(firstArg) ? unwrapCallableExpression(firstArg) : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the props type when the declaration looks like a React function component:
+ * a capitalized callable that is either typed as `FC<Props>`, or lives in a JSX file and takes
+ * an object or returns JSX. Components without props resolve to `{ type: undefined }`.
+ */
+function getComponentPropsType(decl: Node, fn: FunctionLike): { type: Type | undefined } | undefined {
+  const name = Node.isFunctionDeclaration(decl) || Node.isVariableDeclaration(decl) ? decl.getName() : undefined;
+  if (!name || !/^[A-Z]/.test(name)) return undefined;
+
+  if (Node.isVariableDeclaration(decl)) {
+    const typeNode = decl.getTypeNode();
+    if (typeNode && Node.isTypeReference(typeNode) && /(^|\.)(FC|VFC|FunctionComponent)$/.test(typeNode.getTypeName().getText())) {
+      const propsNode = typeNode.getTypeArguments()[0];
+      return { type: propsNode?.getType() };
     }
   }
 
-  for (const name in newProps) {
-    if (!oldProps[name]) {
-      issues.push(`Prop \`${name}\` was added`);
+  if (!/\.(t|j)sx$/.test(decl.getSourceFile().getFilePath())) return undefined;
+
+  // `Format(value: string)` is a plain function even in a .tsx file; its "props" would be `String`'s methods
+  const propsType = fn.getParameters()[0]?.getType();
+  const isComponent = propsType && !propsType.isAny()
+    ? isPlainObjectType(propsType)
+    : returnsJsx(fn);
+
+  return isComponent ? { type: propsType } : undefined;
+}
+
+function returnsJsx(fn: FunctionLike): boolean {
+  return fn.getDescendants().some(node =>
+    Node.isJsxElement(node) || Node.isJsxSelfClosingElement(node) || Node.isJsxFragment(node)
+  );
+}
+
+/**
+ * Describes how a type moved between versions. The old type comes from another program (the
+ * base-ref project, or a bare one), which HEAD's checker can't relate its own types to, so the
+ * direction is worked out structurally on both sides instead.
+ */
+function getTypeChange(
+  oldType: Type,
+  newType: Type,
+  flags = TypeFormatFlags.None
+): "narrowed" | "widened" | "changed" | undefined {
+  if (getComparableText(oldType, flags) === getComparableText(newType, flags)) return undefined;
+
+  const oldToNew = isStructurallyAssignable(oldType, newType, 0, flags);
+  const newToOld = isStructurallyAssignable(newType, oldType, 0, flags);
+
+  if (newToOld && !oldToNew) return "narrowed";
+  if (oldToNew && !newToOld) return "widened";
+  if (oldToNew && newToOld) return undefined;
+  return "changed";
+}
+
+const MAX_STRUCTURAL_DEPTH = 5;
+
+/**
+ * Whether a value of `source` fits where `target` is expected, compared by union members,
+ * literal base types, array elements, type arguments of the same generic, index signatures and
+ * object properties. Anything else (functions, types past the depth limit) only matches when
+ * its text is identical.
+ */
+function isStructurallyAssignable(source: Type, target: Type, depth = 0, flags = TypeFormatFlags.None): boolean {
+  if (getComparableText(source, flags) === getComparableText(target, flags)) return true;
+  if (source.isAny() || source.isNever() || target.isAny() || target.isUnknown()) return true;
+
+  if (source.isUnion()) return source.getUnionTypes().every(member => isStructurallyAssignable(member, target, depth));
+  if (target.isUnion()) return target.getUnionTypes().some(member => isStructurallyAssignable(source, member, depth));
+
+  if (source.isLiteral() || source.isBooleanLiteral()) {
+    return getComparableText(source.getBaseTypeOfLiteralType()) === getComparableText(target);
+  }
+  if (depth >= MAX_STRUCTURAL_DEPTH) return false;
+
+  const sourceElement = source.getArrayElementType();
+  const targetElement = target.getArrayElementType();
+  if (sourceElement && targetElement) return isStructurallyAssignable(sourceElement, targetElement, depth + 1);
+
+  if (!isObjectLike(source) || !isObjectLike(target) || sourceElement || targetElement) return false;
+
+  // Two instantiations of the same generic (`Promise<T>`, `Map<K, V>`) differ only in their arguments
+  const sourceArgs = getTypeArguments(source);
+  const targetArgs = getTypeArguments(target);
+  if (sourceArgs.length > 0 && sourceArgs.length === targetArgs.length && getGenericName(source) === getGenericName(target)) {
+    return sourceArgs.every((arg, i) => isStructurallyAssignable(arg, targetArgs[i], depth + 1));
+  }
+
+  if (source.getCallSignatures().length > 0 || target.getCallSignatures().length > 0) return false;
+
+  const sourceProps = new Map(source.getProperties().map(p => [p.getName(), p]));
+  for (const targetProp of target.getProperties()) {
+    const sourceProp = sourceProps.get(targetProp.getName());
+    if (!sourceProp) {
+      if (targetProp.isOptional()) continue;
+      return false;
     }
+    if (sourceProp.isOptional() && !targetProp.isOptional()) return false;
+
+    const sourcePropType = getPropertyType(sourceProp);
+    const targetPropType = getPropertyType(targetProp);
+    if (!sourcePropType || !targetPropType) return false;
+    if (!isStructurallyAssignable(sourcePropType, targetPropType, depth + 1)) return false;
+  }
+
+  const targetStringIndex = target.getStringIndexType();
+  if (targetStringIndex) {
+    const sourceStringIndex = source.getStringIndexType();
+    const sourceValues = sourceStringIndex ? [sourceStringIndex] : [...sourceProps.values()].map(getPropertyType);
+    if (!sourceValues.every(value => value && isStructurallyAssignable(value, targetStringIndex, depth + 1))) return false;
+  }
+
+  const targetNumberIndex = target.getNumberIndexType();
+  if (targetNumberIndex) {
+    const sourceNumberIndex = source.getNumberIndexType() ?? source.getStringIndexType();
+    if (!sourceNumberIndex || !isStructurallyAssignable(sourceNumberIndex, targetNumberIndex, depth + 1)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * The type a property has on this particular instantiation. The declaration's own type would
+ * be the uninstantiated one, so `Box<string>` and `Box<number>` would both read as `T`.
+ */
+function getPropertyType(prop: TsSymbol): Type | undefined {
+  const location = prop.getValueDeclaration() ?? prop.getDeclarations()[0];
+  return location && prop.getTypeAtLocation(location);
+}
+
+function getGenericName(type: Type): string | undefined {
+  return (type.getAliasSymbol() ?? type.getSymbol())?.getName();
+}
+
+function getTypeArguments(type: Type): Type[] {
+  return type.getAliasSymbol() ? type.getAliasTypeArguments() : type.getTypeArguments();
+}
+
+/**
+ * Type text without `import("...")` qualifiers, which one program prints for a type the other
+ * names directly even when both mean the same declaration.
+ */
+function getComparableText(type: Type, flags = TypeFormatFlags.None): string {
+  return formatType(type, flags).replace(/import\("[^"]*"\)\./g, "");
+}
+
+function compareFunctionSignature(
+  oldFn: FunctionLike,
+  newFn: FunctionLike
+): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+
+  // Overloaded functions are compared as a set of callable signatures instead of one declaration
+  const oldOverloads = getOverloads(oldFn);
+  const newOverloads = getOverloads(newFn);
+  if (oldOverloads.length > 0 || newOverloads.length > 0) {
+    return compareOverloads(
+      oldOverloads.length > 0 ? oldOverloads : [oldFn],
+      newOverloads.length > 0 ? newOverloads : [newFn]
+    );
+  }
+
+  changes.push(...compareTypeParameters(oldFn.getTypeParameters(), newFn.getTypeParameters()));
+
+  const oldRet = !!oldFn && "getReturnType" in oldFn ? oldFn.getReturnType() : undefined;
+  const newRet = !!newFn && "getReturnType" in newFn ? newFn.getReturnType() : undefined;
+  if (!oldRet && !newRet) return [];
+
+  // Going sync ↔ async or to/from a generator changes what every call site gets back,
+  // which says more than the raw return type diff would
+  const oldShape = getCallShape(oldFn, oldRet);
+  const newShape = getCallShape(newFn, newRet);
+  if (oldShape !== newShape) {
+    const returnNote = oldRet && newRet ? `; it now returns \`${formatType(newRet)}\` instead of \`${formatType(oldRet)}\`` : "";
+    changes.push({
+      factor: RiskFactorType.AsyncChange,
+      message: `Changed from ${CALL_SHAPE_LABELS[oldShape]} to ${CALL_SHAPE_LABELS[newShape]}${returnNote}`,
+    });
+  } else if (oldRet && newRet) {
+    changes.push(...compareReturnTypes(oldRet, newRet));
   }
 
-  return issues;
+  const oldParams = !!oldFn && "getParameters" in oldFn ? oldFn.getParameters() : [];
+  const newParams = !!newFn && "getParameters" in newFn ? newFn.getParameters() : [];
+
+  changes.push(...compareParameters(oldParams, newParams));
+
+  return changes;
+}
+
+type CallShape = "sync" | "async" | "generator" | "asyncGenerator";
+
+const CALL_SHAPE_LABELS: Record<CallShape, string> = {
+  sync: "a synchronous function",
+  async: "an async function",
+  generator: "a generator",
+  asyncGenerator: "an async generator",
+};
+
+/** Non-async functions that return a Promise count as async, since callers await them the same way */
+function getCallShape(fn: FunctionLike, returnType: Type | undefined): CallShape {
+  const isAsync = "isAsync" in fn && fn.isAsync();
+  if ("isGenerator" in fn && fn.isGenerator()) return isAsync ? "asyncGenerator" : "generator";
+  if (isAsync || (returnType && ["Promise", "PromiseLike"].includes(returnType.getSymbol()?.getName() ?? ""))) return "async";
+  return "sync";
+}
+
+function getOverloads(fn: FunctionLike): FunctionLike[] {
+  if (!Node.isFunctionDeclaration(fn) && !Node.isMethodDeclaration(fn)) return [];
+
+  const implementation = fn.isOverload() ? fn.getImplementation() : fn;
+  return implementation?.getOverloads() ?? [];
+}
+
+function compareOverloads(oldOverloads: FunctionLike[], newOverloads: FunctionLike[]): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+
+  const oldSignatures = new Set(oldOverloads.map(getSignatureText));
+  const newSignatures = new Set(newOverloads.map(getSignatureText));
+
+  for (const signature of oldSignatures) {
+    if (!newSignatures.has(signature)) {
+      changes.push({ factor: RiskFactorType.TypeNarrowing, message: `Overload \`${signature}\` was removed` });
+    }
+  }
+
+  for (const signature of newSignatures) {
+    if (!oldSignatures.has(signature)) {
+      changes.push({ factor: RiskFactorType.TypeWidening, message: `Overload \`${signature}\` was added (safe for callers)` });
+    }
+  }
+
+  return changes;
+}
+
+function getSignatureText(fn: FunctionLike): string {
+  const typeParams = fn.getTypeParameters().map(t => t.getText());
+  const params = fn.getParameters().map(p => p.getText());
+  const returnType = fn.getReturnTypeNode()?.getText();
+
+  return `${typeParams.length > 0 ? `<${typeParams.join(", ")}>` : ""}(${params.join(", ")})${returnType ? `: ${returnType}` : ""}`;
+}
+
+function compareReturnTypes(oldRet: Type, newRet: Type): DeclarationChange[] {
+  const returnChange = getTypeChange(oldRet, newRet);
+
+  // Consumers read return values, so widening is what breaks them and narrowing is safe
+  if (returnChange === "widened") {
+    return [{
+      factor: RiskFactorType.ReturnTypeChanged,
+      message: `Return type widened from \`${formatType(oldRet)}\` to \`${formatType(newRet)}\``,
+    }];
+  }
+  if (returnChange === "narrowed") {
+    return [{
+      factor: RiskFactorType.TypeWidening,
+      message: `Return type narrowed from \`${formatType(oldRet)}\` to \`${formatType(newRet)}\` (safe for consumers)`,
+    }];
+  }
+  if (returnChange === "changed") {
+    return [{
+      factor: RiskFactorType.ReturnTypeChanged,
+      message: `Return type changed from \`${formatType(oldRet)}\` to \`${formatType(newRet)}\``,
+    }];
+  }
+  return [];
+}
+
+function compareTypeParameters(
+  oldTypeParams: TypeParameterDeclaration[],
+  newTypeParams: TypeParameterDeclaration[]
+): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+
+  const oldByName = new Map(oldTypeParams.map(t => [t.getName(), t]));
+  const newByName = new Map(newTypeParams.map(t => [t.getName(), t]));
+
+  for (const [name, oldParam] of oldByName) {
+    const newParam = newByName.get(name);
+    if (!newParam) {
+      changes.push({ factor: RiskFactorType.TypeNarrowing, message: `Type parameter \`${name}\` was removed` });
+      continue;
+    }
+
+    const oldConstraint = oldParam.getConstraint();
+    const newConstraint = newParam.getConstraint();
+
+    if (!oldConstraint && newConstraint) {
+      changes.push({
+        factor: RiskFactorType.TypeNarrowing,
+        message: `Type parameter \`${name}\` now has constraint \`extends ${newConstraint.getText()}\``,
+      });
+    } else if (oldConstraint && !newConstraint) {
+      changes.push({
+        factor: RiskFactorType.TypeWidening,
+        message: `Type parameter \`${name}\` lost constraint \`extends ${oldConstraint.getText()}\` (safe for callers)`,
+      });
+    } else if (oldConstraint && newConstraint) {
+      const constraintChange = getTypeChange(oldConstraint.getType(), newConstraint.getType());
+      if (constraintChange === "narrowed" || constraintChange === "changed") {
+        changes.push({
+          factor: RiskFactorType.TypeNarrowing,
+          message: `Type parameter \`${name}\` constraint ${constraintChange === "narrowed" ? "tightened" : "changed"} from \`${oldConstraint.getText()}\` to \`${newConstraint.getText()}\``,
+        });
+      } else if (constraintChange === "widened") {
+        changes.push({
+          factor: RiskFactorType.TypeWidening,
+          message: `Type parameter \`${name}\` constraint loosened from \`${oldConstraint.getText()}\` to \`${newConstraint.getText()}\` (safe for callers)`,
+        });
+      }
+    }
+
+    const oldDefault = oldParam.getDefault();
+    if (oldDefault && !newParam.getDefault()) {
+      changes.push({
+        factor: RiskFactorType.TypeNarrowing,
+        message: `Type parameter \`${name}\` lost its default \`${oldDefault.getText()}\``,
+      });
+    }
+  }
+
+  // Without a default, a new type parameter breaks every caller passing explicit type arguments
+  for (const [name, newParam] of newByName) {
+    if (oldByName.has(name)) continue;
+
+    if (newParam.getDefault()) {
+      changes.push({ factor: RiskFactorType.TypeWidening, message: `Type parameter \`${name}\` was added with a default (safe for callers)` });
+    } else {
+      changes.push({ factor: RiskFactorType.TypeNarrowing, message: `Type parameter \`${name}\` was added` });
+    }
+  }
+
+  return changes;
+}
+
+function compareParameters(
+  oldParams: ParameterDeclaration[],
+  newParams: ParameterDeclaration[],
+  offset = 0
+): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+
+  const oldNames = oldParams.map(p => p.getName());
+  const newNames = newParams.map(p => p.getName());
+
+  // Same names in a different order: positional comparison below would only produce noise
+  const isReordered = oldNames.length === newNames.length
+    && oldNames.some((n, i) => n !== newNames[i])
+    && oldNames.every(n => newNames.includes(n));
+
+  if (isReordered) {
+    const typesSwapped = oldParams.some((p, i) => getTypeChange(p.getType(), newParams[i].getType()) !== undefined);
+    changes.push({
+      factor: RiskFactorType.TypeNarrowing,
+      message: `Parameters reordered from \`(${oldNames.join(", ")})\` to \`(${newNames.join(", ")})\`` + (typesSwapped
+        ? "; positional types changed, so existing calls no longer type-check"
+        : "; positional types are unchanged, so existing calls still compile but pass values to the wrong parameter"),
+    });
+    return changes;
+  }
+
+  for (let i = 0; i < Math.min(oldParams.length, newParams.length); i++) {
+    changes.push(...compareParameter(oldParams[i], newParams[i], i + offset));
+  }
+
+  for (const param of newParams.slice(oldParams.length)) {
+    if (param.isRestParameter()) {
+      changes.push({ factor: RiskFactorType.TypeWidening, message: `Added rest parameter \`${param.getName()}\` (safe for callers)` });
+    } else if (param.isOptional()) {
+      changes.push({ factor: RiskFactorType.TypeWidening, message: `Added optional parameter \`${param.getName()}\` (safe for callers)` });
+    } else {
+      changes.push({ factor: RiskFactorType.TypeNarrowing, message: `Added required parameter \`${param.getName()}\`` });
+    }
+  }
+
+  for (const param of oldParams.slice(newParams.length)) {
+    changes.push({ factor: RiskFactorType.TypeNarrowing, message: `Removed parameter \`${param.getName()}\`` });
+  }
+
+  return changes;
+}
+
+function compareParameter(
+  oldParam: ParameterDeclaration,
+  newParam: ParameterDeclaration,
+  index: number
+): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+  const label = `Parameter ${index + 1} (\`${newParam.getName()}\`)`;
+
+  if (oldParam.isRestParameter() !== newParam.isRestParameter()) {
+    changes.push({
+      factor: RiskFactorType.TypeNarrowing,
+      message: `${label} ${newParam.isRestParameter() ? "is now a rest parameter" : "is no longer a rest parameter"}`,
+    });
+    return changes; // the types are arrays vs elements now, comparing them says nothing useful
+  }
+
+  const oldDefault = oldParam.getInitializer();
+  const hasDefault = newParam.hasInitializer();
+
+  if (oldParam.isOptional() && !newParam.isOptional()) {
+    changes.push({
+      factor: RiskFactorType.TypeNarrowing,
+      message: oldDefault
+        ? `${label} lost its default value \`${oldDefault.getText()}\` and is now required`
+        : `${label} is now required`,
+    });
+  } else if (!oldParam.isOptional() && newParam.isOptional()) {
+    changes.push({ factor: RiskFactorType.TypeWidening, message: `${label} is now optional (safe for callers)` });
+  } else if (oldDefault && !hasDefault) {
+    changes.push({
+      factor: RiskFactorType.TypeNarrowing,
+      message: `${label} lost its default value \`${oldDefault.getText()}\`; omitting it now passes \`undefined\``,
+    });
+  }
+
+  // `x?: T` reads as `T | undefined`; optionality was already reported above
+  const oldType = oldParam.hasQuestionToken() ? oldParam.getType().getNonNullableType() : oldParam.getType();
+  const newType = newParam.hasQuestionToken() ? newParam.getType().getNonNullableType() : newParam.getType();
+
+  // Callers supply arguments, so narrowing is what breaks them and widening is safe
+  const paramChange = getTypeChange(oldType, newType);
+  if (paramChange === "narrowed") {
+    changes.push({
+      factor: RiskFactorType.TypeNarrowing,
+      message: `${label} type narrowed from \`${formatType(oldType)}\` to \`${formatType(newType)}\``,
+    });
+  } else if (paramChange === "widened") {
+    changes.push({
+      factor: RiskFactorType.TypeWidening,
+      message: `${label} type widened from \`${formatType(oldType)}\` to \`${formatType(newType)}\` (safe for callers)`,
+    });
+  } else if (paramChange === "changed") {
+    changes.push({
+      factor: RiskFactorType.TypeNarrowing,
+      message: `${label} type changed from \`${formatType(oldType)}\` to \`${formatType(newType)}\``,
+    });
+  }
+
+  return changes;
+}
+
+function compareInterfaces(
+  oldInterface: InterfaceDeclaration,
+  newInterface: InterfaceDeclaration
+): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+
+  const oldExtends = new Set(oldInterface.getExtends().map(e => e.getText()));
+  const newExtends = new Set(newInterface.getExtends().map(e => e.getText()));
+
+  for (const base of oldExtends) {
+    if (!newExtends.has(base)) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `No longer extends \`${base}\`` });
+    }
+  }
+
+  for (const base of newExtends) {
+    if (!oldExtends.has(base)) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Now extends \`${base}\`` });
+    }
+  }
+
+  const oldProps = !!oldInterface && "getProperties" in oldInterface ? Object.fromEntries(
+    oldInterface.getProperties().map(p => [p.getName(), p])
+  ) : {};
+  const newProps = !!newInterface && "getProperties" in newInterface ? Object.fromEntries(
+    newInterface.getProperties().map(p => [p.getName(), p])
+  ) : {};
+
+  if (!oldProps && !newProps) return [];
+
+  for (const name in oldProps) {
+    if (!newProps[name]) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Prop \`${name}\` was removed` });
+      continue;
+    }
+
+    const wasOptional = oldProps[name].hasQuestionToken();
+    const isOptional = newProps[name].hasQuestionToken();
+
+    if (wasOptional && !isOptional) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Prop \`${name}\` is now required` });
+    }
+
+    const wasReadonly = oldProps[name].isReadonly();
+    const isReadonly = newProps[name].isReadonly();
+
+    if (!wasReadonly && isReadonly) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Prop \`${name}\` is now readonly` });
+    } else if (wasReadonly && !isReadonly) {
+      changes.push({ factor: RiskFactorType.TypeWidening, message: `Prop \`${name}\` is no longer readonly (safe for consumers)` });
+    }
+
+    // `x?: T` reads as `T | undefined`; optionality was already reported above
+    const oldType = wasOptional ? oldProps[name].getType().getNonNullableType() : oldProps[name].getType();
+    const newType = isOptional ? newProps[name].getType().getNonNullableType() : newProps[name].getType();
+    changes.push(...describeMemberTypeChange(`Prop \`${name}\``, oldType, newType));
+  }
+
+  for (const name in newProps) {
+    if (!oldProps[name]) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Prop \`${name}\` was added` });
+    }
+  }
+
+  const oldMethods = new Map(oldInterface.getMethods().map(m => [m.getName(), m]));
+  const newMethods = new Map(newInterface.getMethods().map(m => [m.getName(), m]));
+
+  for (const [name, oldMethod] of oldMethods) {
+    const newMethod = newMethods.get(name);
+    if (!newMethod) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Method \`${name}\` was removed` });
+      continue;
+    }
+
+    changes.push(...compareFunctionSignature(oldMethod, newMethod).map(c => ({
+      ...c,
+      message: `Method \`${name}\`: ${c.message}`,
+    })));
+  }
+
+  for (const name of newMethods.keys()) {
+    if (!oldMethods.has(name)) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Method \`${name}\` was added` });
+    }
+  }
+
+  const oldIndexes = new Map(oldInterface.getIndexSignatures().map(i => [formatType(i.getKeyType()), i]));
+  const newIndexes = new Map(newInterface.getIndexSignatures().map(i => [formatType(i.getKeyType()), i]));
+
+  for (const [keyType, oldIndex] of oldIndexes) {
+    const newIndex = newIndexes.get(keyType);
+    if (!newIndex) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Index signature \`${oldIndex.getText().replace(/;$/, "")}\` was removed` });
+      continue;
+    }
+
+    changes.push(...describeMemberTypeChange(`Index signature \`[${keyType}]\``, oldIndex.getReturnType(), newIndex.getReturnType()));
+  }
+
+  for (const [keyType, newIndex] of newIndexes) {
+    if (!oldIndexes.has(keyType)) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Index signature \`${newIndex.getText().replace(/;$/, "")}\` was added` });
+    }
+  }
+
+  return changes;
+}
+
+function describeMemberTypeChange(
+  label: string,
+  oldType: Type,
+  newType: Type,
+  flags = TypeFormatFlags.None
+): DeclarationChange[] {
+  const typeChange = getTypeChange(oldType, newType, flags);
+  if (!typeChange) return [];
+
+  const factor = typeChange === "narrowed"
+    ? RiskFactorType.TypeNarrowing
+    : typeChange === "widened" ? RiskFactorType.TypeWidening : RiskFactorType.PropsChanged;
+
+  return [{
+    factor,
+    message: `${label} type ${typeChange} from \`${formatType(oldType, flags)}\` to \`${formatType(newType, flags)}\``,
+  }];
+}
+
+function compareClasses(
+  oldClass: ClassDeclaration,
+  newClass: ClassDeclaration
+): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+  const className = newClass.getName() ?? "default";
+
+  // Constructors only matter for their parameters and whether callers can still reach them
+  const oldCtor = oldClass.getConstructors()[0];
+  const newCtor = newClass.getConstructors()[0];
+  const ctorSubject = `${className}.constructor`;
+
+  if (getMemberVisibility(newCtor) < getMemberVisibility(oldCtor)) {
+    changes.push({
+      factor: RiskFactorType.PropsChanged,
+      message: `Constructor visibility changed from ${describeVisibility(oldCtor)} to ${describeVisibility(newCtor)}`,
+      subject: ctorSubject,
+    });
+  }
+
+  changes.push(...compareParameters(oldCtor?.getParameters() ?? [], newCtor?.getParameters() ?? []).map(c => ({
+    ...c,
+    message: `Constructor: ${c.message}`,
+    subject: ctorSubject,
+  })));
+
+  const oldMembers = getClassMembers(oldClass);
+  const newMembers = getClassMembers(newClass);
+
+  for (const [name, oldMember] of oldMembers) {
+    // Private members were never part of the API, so nothing can break
+    if (getMemberVisibility(oldMember) === 0) continue;
+
+    const subject = `${className}.${name}`;
+    const label = describeMember(oldMember);
+    const newMember = newMembers.get(name);
+
+    if (!newMember) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `${label} \`${name}\` was removed`, subject });
+      continue;
+    }
+
+    if (getMemberVisibility(newMember) < getMemberVisibility(oldMember)) {
+      changes.push({
+        factor: RiskFactorType.PropsChanged,
+        message: `${label} \`${name}\` visibility changed from ${describeVisibility(oldMember)} to ${describeVisibility(newMember)}`,
+        subject,
+      });
+    }
+
+    if (oldMember.isStatic() !== newMember.isStatic()) {
+      changes.push({
+        factor: RiskFactorType.PropsChanged,
+        message: `${label} \`${name}\` ${newMember.isStatic() ? "is now static" : "is no longer static"}`,
+        subject,
+      });
+    }
+
+    // Properties and accessors are interchangeable for callers; only a switch to or from a method is
+    if (Node.isMethodDeclaration(oldMember) !== Node.isMethodDeclaration(newMember)) {
+      changes.push({
+        factor: RiskFactorType.PropsChanged,
+        message: `${label} \`${name}\` changed to a ${describeMember(newMember).toLowerCase()}`,
+        subject,
+      });
+      continue;
+    }
+
+    if (Node.isMethodDeclaration(oldMember) && Node.isMethodDeclaration(newMember)) {
+      changes.push(...compareFunctionSignature(oldMember, newMember).map(c => ({
+        ...c,
+        message: `Method \`${name}\`: ${c.message}`,
+        subject,
+      })));
+    } else if (!Node.isMethodDeclaration(oldMember) && !Node.isMethodDeclaration(newMember)) {
+      if (isMemberWritable(oldMember) && !isMemberWritable(newMember)) {
+        changes.push({ factor: RiskFactorType.PropsChanged, message: `${label} \`${name}\` is now readonly`, subject });
+      }
+      changes.push(...describeMemberTypeChange(`${label} \`${name}\``, getMemberValueType(oldMember), getMemberValueType(newMember)).map(c => ({
+        ...c,
+        subject,
+      })));
+    }
+  }
+
+  return changes;
+}
+
+function getClassMembers(cls: ClassDeclaration): Map<string, ClassMember> {
+  // A getter stands for its accessor pair; setters only count on their own when there's no getter
+  const getters = cls.getGetAccessors();
+  const setters = cls.getSetAccessors().filter(setter => !getters.some(getter => getter.getName() === setter.getName()));
+  const members: ClassMember[] = [...cls.getMethods(), ...cls.getProperties(), ...getters, ...setters];
+  return new Map(members.map(m => [m.getName(), m]));
+}
+
+type ClassValueMember = Exclude<ClassMember, MethodDeclaration>;
+
+function isMemberWritable(member: ClassValueMember): boolean {
+  if (Node.isPropertyDeclaration(member)) return !member.isReadonly();
+  if (Node.isGetAccessorDeclaration(member)) return member.getSetAccessor() !== undefined;
+  return true;
+}
+
+function getMemberValueType(member: ClassValueMember): Type {
+  if (Node.isGetAccessorDeclaration(member)) return member.getReturnType();
+  if (Node.isSetAccessorDeclaration(member)) return member.getParameters()[0]?.getType() ?? member.getType();
+  return member.getType();
+}
+
+/** Ranks how widely a member can be reached: 2 = public, 1 = protected, 0 = private */
+function getMemberVisibility(member: ClassMember | ConstructorDeclaration | undefined): number {
+  if (!member) return 2; // an implicit constructor is public
+  if (!Node.isConstructorDeclaration(member) && member.getName().startsWith("#")) return 0;
+
+  const scope = member.getScope();
+  if (scope === Scope.Private) return 0;
+  if (scope === Scope.Protected) return 1;
+  return 2;
+}
+
+function describeVisibility(member: ClassMember | ConstructorDeclaration | undefined): string {
+  return ["private", "protected", "public"][getMemberVisibility(member)];
+}
+
+function describeMember(member: ClassMember): string {
+  if (Node.isMethodDeclaration(member)) return "Method";
+  if (Node.isPropertyDeclaration(member)) return "Property";
+  return Node.isGetAccessorDeclaration(member) ? "Getter" : "Setter";
+}
+
+function compareEnums(
+  oldEnum: EnumDeclaration,
+  newEnum: EnumDeclaration
+): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+
+  if (oldEnum.isConstEnum() !== newEnum.isConstEnum()) {
+    changes.push({
+      factor: RiskFactorType.EnumConstChanged,
+      message: newEnum.isConstEnum() ? "Changed from `enum` to `const enum`" : "Changed from `const enum` to `enum`",
+    });
+  }
+
+  const newMembers = new Map(newEnum.getMembers().map(m => [m.getName(), m]));
+
+  for (const oldMember of oldEnum.getMembers()) {
+    const name = oldMember.getName();
+    const newMember = newMembers.get(name);
+
+    if (!newMember) {
+      changes.push({ factor: RiskFactorType.EnumMemberRemoved, message: `Member \`${name}\` was removed` });
+      continue;
+    }
+
+    // getValue() resolves implicit numbering too, so reordering members is caught here
+    const oldValue = oldMember.getValue();
+    const newValue = newMember.getValue();
+    if (oldValue !== newValue) {
+      changes.push({
+        factor: RiskFactorType.EnumValueChanged,
+        message: `Member \`${name}\` value changed from \`${formatEnumValue(oldValue)}\` to \`${formatEnumValue(newValue)}\``,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function formatEnumValue(value: string | number | undefined): string {
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+function compareTypeAliases(
+  oldAlias: TypeAliasDeclaration,
+  newAlias: TypeAliasDeclaration
+): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+
+  const oldType = oldAlias.getType();
+  const newType = newAlias.getType();
+
+  // Unions are compared member by member; removing a member breaks anyone producing that value.
+  // A member still covered by a broader one on the other side (`'a'` by `string`) wasn't removed.
+  if (oldType.isUnion() || newType.isUnion()) {
+    const oldMembers = getUnionMembers(oldType);
+    const newMembers = getUnionMembers(newType);
+
+    for (const member of oldMembers) {
+      if (!newMembers.some(newMember => isStructurallyAssignable(member, newMember))) {
+        changes.push({ factor: RiskFactorType.TypeNarrowing, message: `Union member \`${formatType(member)}\` was removed` });
+      }
+    }
+
+    for (const member of newMembers) {
+      if (!oldMembers.some(oldMember => isStructurallyAssignable(member, oldMember))) {
+        changes.push({ factor: RiskFactorType.TypeWidening, message: `Union member \`${formatType(member)}\` was added` });
+      }
+    }
+
+    return changes;
+  }
+
+  // Object literals and intersections both resolve to a flat set of properties
+  if (isPlainObjectType(oldType) && isPlainObjectType(newType)) return compareObjectProperties(oldType, newType);
+
+  // Primitives, functions, arrays and generic instantiations are compared as a whole. The alias's
+  // own name would print the same on both sides, so its definition is printed instead.
+  return describeMemberTypeChange("Aliased", oldType, newType, TypeFormatFlags.InTypeAlias);
+}
+
+function compareObjectProperties(oldType: Type | undefined, newType: Type | undefined): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+
+  const oldProps = new Map((oldType?.getProperties() ?? []).map(p => [p.getName(), p]));
+  const newProps = new Map((newType?.getProperties() ?? []).map(p => [p.getName(), p]));
+
+  for (const [name, oldProp] of oldProps) {
+    const newProp = newProps.get(name);
+    if (!newProp) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Prop \`${name}\` was removed` });
+      continue;
+    }
+
+    if (oldProp.isOptional() && !newProp.isOptional()) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Prop \`${name}\` is now required` });
+    }
+
+    const oldPropType = getPropertyType(oldProp);
+    const newPropType = getPropertyType(newProp);
+    if (oldPropType && newPropType) {
+      // Optionality was reported above, so compare without the implied `undefined`
+      changes.push(...describeMemberTypeChange(
+        `Prop \`${name}\``,
+        oldProp.isOptional() ? oldPropType.getNonNullableType() : oldPropType,
+        newProp.isOptional() ? newPropType.getNonNullableType() : newPropType
+      ));
+    }
+  }
+
+  for (const name of newProps.keys()) {
+    if (!oldProps.has(name)) {
+      changes.push({ factor: RiskFactorType.PropsChanged, message: `Prop \`${name}\` was added` });
+    }
+  }
+
+  return changes;
+}
+
+function isObjectLike(type: Type): boolean {
+  return type.isObject() || type.isIntersection();
+}
+
+/** Object types that are just a bag of properties, as opposed to arrays, callables or `Box<T>` instances */
+function isPlainObjectType(type: Type): boolean {
+  return isObjectLike(type) && !type.isArray() && !type.isTuple()
+    && type.getCallSignatures().length === 0 && getTypeArguments(type).length === 0;
+}
+
+function getUnionMembers(type: Type): Type[] {
+  return type.isUnion() ? type.getUnionTypes() : [type];
+}
+
+function formatType(type: Type, flags = TypeFormatFlags.None): string {
+  return type.getText(undefined, TypeFormatFlags.UseFullyQualifiedType | flags);
+}
+
+function compareJsxEventHandlers(oldSourceFile: SourceFile, newSourceFile: SourceFile): ExportChange[] {
+  const changes: ExportChange[] = [];
+
+  const matches = matchJsxEventHandlers(collectJsxEventHandlers(oldSourceFile), collectJsxEventHandlers(newSourceFile));
+
+  for (const [oldHandler, newHandler] of matches) {
+    const { component, element, event } = oldHandler;
+    const oldText = oldHandler.handler?.getText() ?? "";
+
+    if (!newHandler) {
+      changes.push({
+        factor: RiskFactorType.JSXEventChange,
+        message: `\`${event}\` handler \`${truncate(oldText)}\` was removed from \`<${element}>\``,
+        subject: component,
+      });
+      continue;
+    }
+
+    const newText = newHandler.handler?.getText() ?? "";
+    if (oldText === newText) continue;
+
+    const isInline = (n: Node | undefined) => !!n && (Node.isArrowFunction(n) || Node.isFunctionExpression(n));
+    const message = isInline(newHandler.handler) && !isInline(oldHandler.handler)
+      ? `\`${event}\` on \`<${element}>\` replaced \`${truncate(oldText)}\` with an inline lambda \`${truncate(newText)}\``
+      : `\`${event}\` on \`<${element}>\` changed from \`${truncate(oldText)}\` to \`${truncate(newText)}\``;
+
+    changes.push({ factor: RiskFactorType.JSXEventChange, message, subject: component });
+  }
+
+  return changes;
+}
+
+const STABLE_JSX_ATTRIBUTES = ["key", "id", "name"];
+
+/**
+ * Collects `on*` attributes in document order, with the component and tag they sit on. Each one
+ * also records a stable attribute of its element and its position among same-tag elements, which
+ * `matchJsxEventHandlers` falls back to when the handler itself changed.
+ */
+function collectJsxEventHandlers(sourceFile: SourceFile): JsxEventHandler[] {
+  const handlers: JsxEventHandler[] = [];
+  const occurrences = new Map<string, number>();
+
+  sourceFile.forEachDescendant(node => {
+    if (!Node.isJsxOpeningElement(node) && !Node.isJsxSelfClosingElement(node)) return;
+
+    const component = getTopLevelName(node);
+    const element = node.getTagNameNode().getText();
+    const elementKey = `${component}|${element}`;
+    const index = occurrences.get(elementKey) ?? 0;
+    occurrences.set(elementKey, index + 1);
+
+    const attributes = node.getAttributes().filter(Node.isJsxAttribute);
+    const stableKey = attributes
+      .find(attr => STABLE_JSX_ATTRIBUTES.includes(attr.getNameNode().getText()))
+      ?.getInitializer()?.getText();
+
+    for (const attr of attributes) {
+      const event = attr.getNameNode().getText();
+      if (!/^on[A-Z]/.test(event)) continue;
+
+      const initializer = attr.getInitializer();
+      const handler = initializer && Node.isJsxExpression(initializer) ? initializer.getExpression() : initializer;
+      handlers.push({ component, element, event, handler, index, stableKey });
+    }
+  });
+
+  return handlers;
+}
+
+/**
+ * Pairs each old handler with the same event on the same tag in the new file: first by a stable
+ * attribute (`key`/`id`/`name`), then by identical handler text, and only then by position, so
+ * inserting or removing an unrelated element doesn't make an existing handler look removed.
+ */
+function matchJsxEventHandlers(
+  oldHandlers: JsxEventHandler[],
+  newHandlers: JsxEventHandler[]
+): Map<JsxEventHandler, JsxEventHandler | undefined> {
+  const matches = new Map<JsxEventHandler, JsxEventHandler | undefined>(oldHandlers.map(h => [h, undefined]));
+  const unmatched = new Set(newHandlers);
+
+  const strategies: ((a: JsxEventHandler, b: JsxEventHandler) => boolean)[] = [
+    (a, b) => a.stableKey !== undefined && a.stableKey === b.stableKey,
+    (a, b) => (a.handler?.getText() ?? "") === (b.handler?.getText() ?? ""),
+    (a, b) => a.index === b.index,
+  ];
+
+  for (const isMatch of strategies) {
+    for (const oldHandler of oldHandlers) {
+      if (matches.get(oldHandler)) continue;
+
+      const newHandler = [...unmatched].find(candidate =>
+        candidate.component === oldHandler.component &&
+        candidate.element === oldHandler.element &&
+        candidate.event === oldHandler.event &&
+        isMatch(oldHandler, candidate)
+      );
+      if (!newHandler) continue;
+
+      matches.set(oldHandler, newHandler);
+      unmatched.delete(newHandler);
+    }
+  }
+
+  return matches;
+}
+
+const DEPENDENCY_HOOKS = ["useEffect", "useLayoutEffect", "useInsertionEffect", "useMemo", "useCallback"];
+
+function compareHookDependencies(oldSourceFile: SourceFile, newSourceFile: SourceFile): ExportChange[] {
+  const changes: ExportChange[] = [];
+
+  const oldCalls = collectHookCalls(oldSourceFile);
+  const newCalls = collectHookCalls(newSourceFile);
+
+  for (const [key, newCall] of newCalls) {
+    const oldCall = oldCalls.get(key);
+    if (!oldCall) continue;
+
+    const oldDeps = oldCall.dependencies;
+    const newDeps = newCall.dependencies;
+    const label = `\`${newCall.hook}\` at line ${newCall.line}`;
+    const formatDeps = (deps: string[]) => `\`[${deps.join(", ")}]\``;
+
+    let message: string | undefined;
+    if (oldDeps && !newDeps) {
+      message = `${label} lost its dependency array ${formatDeps(oldDeps)}; it now runs on every render`;
+    } else if (!oldDeps && newDeps) {
+      message = `${label} gained dependency array ${formatDeps(newDeps)}; it no longer runs on every render`;
+    } else if (oldDeps && newDeps && oldDeps.length > 0 && newDeps.length === 0) {
+      message = `${label} dependency array was emptied (was ${formatDeps(oldDeps)}); it now runs only on mount`;
+    } else if (oldDeps && newDeps) {
+      const added = newDeps.filter(d => !oldDeps.includes(d));
+      const removed = oldDeps.filter(d => !newDeps.includes(d));
+      const parts = [
+        ...(added.length > 0 ? [`added ${added.map(d => `\`${d}\``).join(", ")}`] : []),
+        ...(removed.length > 0 ? [`removed ${removed.map(d => `\`${d}\``).join(", ")}`] : []),
+      ];
+      if (parts.length > 0) message = `${label} dependencies changed: ${parts.join("; ")}`;
+    }
+
+    if (message) {
+      changes.push({ factor: RiskFactorType.HookDependencyChange, message, subject: newCall.component });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Collects dependency-taking hook calls keyed by component, hook name and the call's
+ * position among same-named hooks in that component.
+ */
+function collectHookCalls(sourceFile: SourceFile): Map<string, HookCall> {
+  const calls = new Map<string, HookCall>();
+  const occurrences = new Map<string, number>();
+
+  sourceFile.forEachDescendant(node => {
+    if (!Node.isCallExpression(node)) return;
+
+    // Handles both `useEffect(...)` and `React.useEffect(...)`
+    const hook = node.getExpression().getText().split(".").pop() ?? "";
+    if (!DEPENDENCY_HOOKS.includes(hook)) return;
+
+    const component = getTopLevelName(node);
+    const hookKey = `${component}|${hook}`;
+    const index = occurrences.get(hookKey) ?? 0;
+    occurrences.set(hookKey, index + 1);
+
+    const depsArg = node.getArguments()[1];
+    const dependencies = depsArg && Node.isArrayLiteralExpression(depsArg)
+      ? depsArg.getElements().map(e => e.getText())
+      : undefined;
+
+    calls.set(`${hookKey}|${index}`, { component, hook, line: node.getStartLineNumber(), dependencies });
+  });
+
+  return calls;
+}
+
+function getTopLevelName(node: Node): string {
+  const statement = node.getFirstAncestor(a => Node.isSourceFile(a.getParent()));
+
+  if (Node.isFunctionDeclaration(statement) || Node.isClassDeclaration(statement)) {
+    return statement.getName() ?? "default";
+  }
+  if (Node.isVariableStatement(statement)) {
+    return statement.getDeclarations()[0]?.getName() ?? "(module)";
+  }
+  if (Node.isExportAssignment(statement)) return "default";
+  return "(module)";
+}
+
+/**
+ * Compares `throw` statements and promise rejections in each exported function body and returns
+ * the ones the old version didn't have. Matching is by text, so throws that only moved aren't reported.
+ */
+function findNewThrowSites(
+  oldExports: ReadonlyMap<string, Node[]>,
+  newExports: ReadonlyMap<string, Node[]>
+): ExportChange[] {
+  const changes: ExportChange[] = [];
+
+  for (const [name, [newDecl]] of newExports) {
+    const oldDecl = oldExports.get(name)?.[0];
+    const oldFn = oldDecl ? resolveCallable(oldDecl) : undefined;
+    const newFn = newDecl ? resolveCallable(newDecl) : undefined;
+    if (!oldFn || !newFn) continue;
+
+    const existing = new Map<string, number>();
+    for (const site of collectThrowSites(oldFn)) {
+      existing.set(site.text, (existing.get(site.text) ?? 0) + 1);
+    }
+
+    for (const site of collectThrowSites(newFn)) {
+      const remaining = existing.get(site.text) ?? 0;
+      if (remaining > 0) {
+        existing.set(site.text, remaining - 1);
+        continue;
+      }
+      changes.push({
+        factor: RiskFactorType.NewThrowPath,
+        message: `New ${site.kind} at line ${site.line}: \`${site.text}\``,
+        subject: name,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Throws that escape the function (not caught by a local try/catch), `Promise.reject(...)` calls,
+ * and calls to a `new Promise` executor's `reject`. Nested functions only run if something calls
+ * them, so the walk stops there, except for `new Promise` executors, which run straight away.
+ * A throw counts as a rejection when the function it's directly in is async or an executor.
+ */
+function collectThrowSites(fn: FunctionLike): ThrowSite[] {
+  const sites: ThrowSite[] = [];
+
+  fn.forEachDescendant((node, traversal) => {
+    if (Node.isFunctionLikeDeclaration(node) && !isPromiseExecutor(node)) {
+      traversal.skip();
+    } else if (Node.isThrowStatement(node)) {
+      if (isCaughtWithin(node)) return;
+      const enclosing = getEnclosingFunction(node);
+      const rejects = !!enclosing && (isPromiseExecutor(enclosing) || (Node.isAsyncable(enclosing) && enclosing.isAsync()));
+      sites.push({ line: node.getStartLineNumber(), kind: rejects ? "rejection" : "throw", text: truncate(node.getText()) });
+    } else if (Node.isCallExpression(node) && isRejectCall(node.getExpression())) {
+      sites.push({ line: node.getStartLineNumber(), kind: "rejection", text: truncate(node.getText()) });
+    }
+  });
+
+  return sites;
+}
+
+/** Only looks as far as the nearest enclosing function; a `try` outside it doesn't see the throw */
+function isCaughtWithin(node: Node): boolean {
+  for (let current = node.getParent(); current && !Node.isFunctionLikeDeclaration(current); current = current.getParent()) {
+    const parent = current.getParent();
+    if (parent && Node.isTryStatement(parent) && parent.getTryBlock() === current && parent.getCatchClause()) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function getEnclosingFunction(node: Node): Node | undefined {
+  return node.getFirstAncestor(ancestor => Node.isFunctionLikeDeclaration(ancestor));
+}
+
+function isPromiseExecutor(node: Node): boolean {
+  const promise = node.getParent();
+  return (Node.isArrowFunction(node) || Node.isFunctionExpression(node)) &&
+    !!promise && Node.isNewExpression(promise) && promise.getExpression().getText() === "Promise" &&
+    promise.getArguments()[0] === node;
+}
+
+function isRejectCall(callee: Node): boolean {
+  if (callee.getText() === "Promise.reject") return true;
+  if (!Node.isIdentifier(callee)) return false;
+
+  // `new Promise((resolve, reject) => ...)` executors reject through their second parameter
+  const param = callee.getSymbol()?.getDeclarations()[0];
+  if (!param || !Node.isParameterDeclaration(param)) return false;
+
+  const executor = param.getParent();
+  return isPromiseExecutor(executor) && (Node.isArrowFunction(executor) || Node.isFunctionExpression(executor)) &&
+    executor.getParameters()[1] === param;
+}
+
+/**
+ * Attributes changes in non-exported top-level functions to every export in the file that
+ * reaches them through the intra-file call graph, directly or via other helpers.
+ */
+function findChangedHelperDependents(oldSourceFile: SourceFile, newSourceFile: SourceFile): ExportChange[] {
+  const oldHelpers = collectInternalHelpers(oldSourceFile);
+  const newHelpers = collectInternalHelpers(newSourceFile);
+
+  // Helpers that were only reformatted or re-commented behave the same, so they don't count
+  const filePath = newSourceFile.getFilePath();
+  const changedHelpers = new Set(
+    [...newHelpers]
+      .filter(([name, helper]) => {
+        const oldHelper = oldHelpers.get(name);
+        return oldHelper !== undefined && !isCosmeticChange(oldHelper.getText(), helper.getText(), filePath);
+      })
+      .map(([name]) => name)
+  );
+  if (changedHelpers.size === 0) return [];
+
+  const helperCallees = new Map<string, string[]>();
+  for (const [name, helper] of newHelpers) {
+    helperCallees.set(name, getLocalCallees(helper, newHelpers).filter(callee => callee !== name));
+  }
+
+  const changes: ExportChange[] = [];
+  for (const [exportName, decls] of newSourceFile.getExportedDeclarations()) {
+    const decl = decls[0];
+    if (!decl || decl.getSourceFile() !== newSourceFile) continue;
+
+    // Breadth-first so each helper is reported with its shortest call path
+    const calledVia = new Map<string, string | undefined>();
+    const queue = getLocalCallees(decl, newHelpers);
+    for (const callee of queue) calledVia.set(callee, undefined);
+
+    for (let caller = queue.shift(); caller !== undefined; caller = queue.shift()) {
+      for (const callee of helperCallees.get(caller) ?? []) {
+        if (calledVia.has(callee)) continue;
+        calledVia.set(callee, caller);
+        queue.push(callee);
+      }
+    }
+
+    for (const helper of calledVia.keys()) {
+      if (!changedHelpers.has(helper)) continue;
+
+      const path: string[] = [];
+      for (let via = calledVia.get(helper); via; via = calledVia.get(via)) path.unshift(via);
+      const viaText = path.length > 0 ? ` (via ${path.map(p => `\`${p}\``).join(" → ")})` : "";
+
+      changes.push({
+        factor: RiskFactorType.InternalHelperChanged,
+        message: `Calls internal helper \`${helper}\`${viaText}, which changed`,
+        subject: exportName,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/** Non-exported top-level functions, including `const fn = () => ...`, keyed by name */
+function collectInternalHelpers(sourceFile: SourceFile): Map<string, FunctionDeclaration | VariableDeclaration> {
+  const exported = new Set([...sourceFile.getExportedDeclarations().values()].flat());
+  const helpers = new Map<string, FunctionDeclaration | VariableDeclaration>();
+
+  for (const fn of sourceFile.getFunctions()) {
+    const name = fn.getName();
+    if (name && !exported.has(fn)) helpers.set(name, fn);
+  }
+  for (const decl of sourceFile.getVariableDeclarations()) {
+    if (!exported.has(decl) && resolveCallable(decl)) helpers.set(decl.getName(), decl);
+  }
+
+  return helpers;
+}
+
+/** Names of the helpers referenced inside `node`, resolved by symbol so shadowed names don't count */
+function getLocalCallees(node: Node, helpers: Map<string, Node>): string[] {
+  const callees = new Set<string>();
+
+  for (const identifier of node.getDescendantsOfKind(SyntaxKind.Identifier)) {
+    const name = identifier.getText();
+    const helper = helpers.get(name);
+    if (helper && identifier.getSymbol()?.getDeclarations().includes(helper)) callees.add(name);
+  }
+
+  return [...callees];
+}
+
+/**
+ * Finds top-level expression statements (calls, assignments and updates to globals or module
+ * state, ...) in the new file that the old file didn't have, matched by text. Declarations alone
+ * run nothing on import, so `let cache = new Map()` isn't one.
+ */
+function findNewTopLevelSideEffects(oldSourceFile: SourceFile, newSourceFile: SourceFile): SideEffect[] {
+  const existing = new Map<string, number>();
+  for (const effect of collectTopLevelSideEffects(oldSourceFile)) {
+    existing.set(effect.text, (existing.get(effect.text) ?? 0) + 1);
+  }
+
+  return collectTopLevelSideEffects(newSourceFile).filter(effect => {
+    const remaining = existing.get(effect.text) ?? 0;
+    if (remaining > 0) {
+      existing.set(effect.text, remaining - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+function isAssignmentOperator(kind: SyntaxKind): boolean {
+  return kind >= SyntaxKind.FirstAssignment && kind <= SyntaxKind.LastAssignment;
+}
+
+function isUpdateExpression(expr: Expression): boolean {
+  if (!Node.isPrefixUnaryExpression(expr) && !Node.isPostfixUnaryExpression(expr)) return false;
+  const operator = expr.getOperatorToken();
+  return operator === SyntaxKind.PlusPlusToken || operator === SyntaxKind.MinusMinusToken;
+}
+
+function collectTopLevelSideEffects(sourceFile: SourceFile): SideEffect[] {
+  const effects: SideEffect[] = [];
+
+  for (const statement of sourceFile.getStatements()) {
+    let description: string | undefined;
+
+    if (Node.isExpressionStatement(statement)) {
+      const expr = statement.getExpression();
+      if (Node.isStringLiteral(expr)) continue; // "use strict" and other directives
+
+      if (Node.isCallExpression(expr) || Node.isNewExpression(expr) || Node.isAwaitExpression(expr)) {
+        description = "Top-level call";
+      } else if (Node.isBinaryExpression(expr) && isAssignmentOperator(expr.getOperatorToken().getKind())) {
+        description = "Top-level assignment";
+      } else if (isUpdateExpression(expr)) {
+        description = "Top-level update";
+      } else {
+        description = "Top-level expression";
+      }
+    }
+
+    if (description) {
+      effects.push({ line: statement.getStartLineNumber(), description, text: truncate(statement.getText()) });
+    }
+  }
+
+  return effects;
+}
+
+/**
+ * Finds `any`, casts and non-null assertions in the new file that the old file didn't have.
+ * Matching is by text rather than position, so code that merely moved isn't reported.
+ */
+function findNewDangerousTypeUses(oldSourceFile: SourceFile, newSourceFile: SourceFile): DangerousTypeUse[] {
+  const existing = new Map<string, number>();
+  for (const use of collectDangerousTypeUses(oldSourceFile)) {
+    const key = `${use.description}:${use.text}`;
+    existing.set(key, (existing.get(key) ?? 0) + 1);
+  }
+
+  return collectDangerousTypeUses(newSourceFile).filter(use => {
+    const key = `${use.description}:${use.text}`;
+    const remaining = existing.get(key) ?? 0;
+    if (remaining > 0) {
+      existing.set(key, remaining - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+function collectDangerousTypeUses(sourceFile: SourceFile): DangerousTypeUse[] {
+  const uses: DangerousTypeUse[] = [];
+  const record = (node: Node, description: string, text = node.getText()) => {
+    uses.push({ line: node.getStartLineNumber(), description, text: truncate(text) });
+  };
+
+  sourceFile.forEachDescendant(node => {
+    if (Node.isAsExpression(node) || Node.isTypeAssertion(node)) {
+      const typeText = node.getTypeNode()?.getText();
+      if (typeText === "const") return;
+
+      const inner = node.getExpression();
+      if ((Node.isAsExpression(inner) || Node.isTypeAssertion(inner)) && inner.getTypeNode()?.getText() === "unknown") {
+        record(node, "`as unknown as` double cast");
+        return; // the inner `as unknown` is part of the same cast
+      }
+
+      // The parent of a double cast has already been recorded
+      const parent = node.getParent();
+      if (typeText === "unknown" && parent && (Node.isAsExpression(parent) || Node.isTypeAssertion(parent))) return;
+
+      record(node, typeText === "any" ? "`as any` cast" : "`as` cast");
+    } else if (Node.isNonNullExpression(node)) {
+      record(node, "Non-null assertion");
+    } else if (node.getKind() === SyntaxKind.AnyKeyword) {
+      const parent = node.getParentOrThrow();
+      // `x as any` is already reported as a cast
+      if (Node.isAsExpression(parent) || Node.isTypeAssertion(parent)) return;
+      // Show the annotated declaration for context unless it spans a whole function body
+      const context = parent.getText();
+      record(node, "`any` type", context.includes("\n") ? node.getText() : context);
+    }
+  });
+
+  return uses;
+}
+
+/** Every file, relative to the working directory; unlike `formatImportList` nothing is elided */
+function listFiles(files: string[]): string {
+  return files.map(f => `\`${path.relative(process.cwd(), f)}\``).join(", ");
+}
+
+function truncate(text: string, maxLength = 60): string {
+  const singleLine = text.replace(/\s+/g, " ");
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
 }
 
 function findUntestedChanges(
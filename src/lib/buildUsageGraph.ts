@@ -1,5 +1,5 @@
 import path from "path";
-import { Project } from "ts-morph";
+import { CompilerOptions, Project } from "ts-morph";
 import { RiskFactorType, ScoredRisk } from "./constants.js";
 import { formatImportList, RenderContext } from "./setup/detectGithub.js";
 import { FileFilter } from "./utils/index.js";
@@ -8,12 +8,15 @@ import { ResolvedConfig } from "./config.js";
 type GraphType =   {
   exports: string[];
   imports: { from: string; symbols: string[] }[];
+  /** Specifiers that didn't resolve in this tree, e.g. imports of a deleted file */
+  unresolvedImports: { specifier: string; symbols: string[] }[];
   importedBy: string[];
+  reExportedBy: string[];
   subsystem: string[];
   isPartial: boolean;
 }
 
-type UsageGraph = Record<
+export type UsageGraph = Record<
   string,
   GraphType
 >;
@@ -55,9 +58,28 @@ function inferSubsystem(path: string): string {
   return parts[1] || "root";
 }
 
+function createNode(): GraphType {
+  return { exports: [], imports: [], unresolvedImports: [], importedBy: [], reExportedBy: [], subsystem: [], isPartial: false };
+}
+
+function linkDependency(graph: UsageGraph, absPath: string, importedPath: string) {
+  if (!graph[importedPath]) {
+    graph[importedPath] = createNode();
+  }
+  if (absPath !== importedPath && !graph[importedPath].importedBy.includes(absPath)) {
+    graph[importedPath].importedBy.push(absPath);
+  }
+
+  const subsystem = inferSubsystem(absPath);
+  if (!graph[importedPath].subsystem.includes(subsystem)) {
+    graph[importedPath].subsystem.push(subsystem);
+  }
+}
+
 // TODO: consider leveraging breaking changes to avoid redoing work (But might couple too tightly
 export async function buildUsageGraph(project: Project, files: string[], options?: { verbose: boolean }): Promise<UsageGraph> {
   const graph: UsageGraph = {};
+  const compilerOptions = project.getCompilerOptions();
   
   // Use FileFilter to filter files consistently
   const fileFilter = FileFilter.createSourceFileFilter();
@@ -74,7 +96,7 @@ export async function buildUsageGraph(project: Project, files: string[], options
 
     // Initialize 
     if (!graph[absPath]) {
-      graph[absPath] = { exports: [], imports: [], importedBy: [], subsystem: [], isPartial: false };
+      graph[absPath] = createNode();
     }
 
     const exportedSymbols = sourceFile.getExportSymbols().map((sym) => sym.getName());
@@ -102,15 +124,11 @@ export async function buildUsageGraph(project: Project, files: string[], options
       const specifier = specNode.getLiteralText();
       if (!specifier) continue;
 
-      const importedFile = specNode.getSourceFile();
+      // Packages and node builtins live outside the graph, resolved or not
+      const importedFile = imp.getModuleSpecifierSourceFile();
+      if (isPackageSpecifier(specifier, compilerOptions) && (!importedFile || importedFile.isInNodeModules())) continue;
       const importedPath = importedFile?.getFilePath();
 
-      if (!importedPath) {
-        graph[absPath].isPartial = true;
-        if (options?.verbose) console.warn(`Could not resolve import "${specifier}" in ${absPath}`);
-        continue;
-      }
-
       const named = imp.getNamedImports().map((i) => i.getName());
       const defaultImp = imp.getDefaultImport()?.getText();
       const ns = imp.getNamespaceImport()?.getText();
@@ -121,27 +139,155 @@ export async function buildUsageGraph(project: Project, files: string[], options
         ...(ns ? [`* as ${ns}`] : []),
       ];
 
+      if (!importedPath) {
+        graph[absPath].isPartial = true;
+        graph[absPath].unresolvedImports.push({ specifier, symbols });
+        if (options?.verbose) console.warn(`Could not resolve import "${specifier}" in ${absPath}`);
+        continue;
+      }
+
       graph[absPath].imports.push({
         from: importedPath,
         symbols,
       });
 
-      if (!graph[importedPath]) {
-        graph[importedPath] = { exports: [], imports: [], importedBy: [], subsystem: [], isPartial: false };
-      }
-      if (absPath !== importedPath && !graph[importedPath].importedBy.includes(absPath)) {
-        graph[importedPath].importedBy.push(absPath);
+      linkDependency(graph, absPath, importedPath);
+    }
+
+    // Barrels (`export * from`, `export { x } from`) depend on the origin file just like importers do,
+    // so anything importing the barrel ends up in the origin's blast radius
+    for (const exp of sourceFile.getExportDeclarations()) {
+      const specNode = exp.getModuleSpecifier();
+      if (!specNode) continue; // local `export { x }` without a module
+
+      const specifier = specNode.getLiteralText();
+      const importedFile = exp.getModuleSpecifierSourceFile();
+      if (isPackageSpecifier(specifier, compilerOptions) && (!importedFile || importedFile.isInNodeModules())) continue;
+      const importedPath = importedFile?.getFilePath();
+
+      const named = exp.getNamedExports().map((e) => e.getName());
+      const ns = exp.getNamespaceExport()?.getName();
+
+      const symbols = named.length > 0 ? named : [ns ? `* as ${ns}` : "*"];
+
+      if (!importedPath) {
+        graph[absPath].isPartial = true;
+        graph[absPath].unresolvedImports.push({ specifier, symbols });
+        if (options?.verbose) console.warn(`Could not resolve re-export "${specifier}" in ${absPath}`);
+        continue;
       }
 
-      const subsystem = inferSubsystem(absPath);
-      if (!graph[importedPath].subsystem.includes(subsystem)) {
-        graph[importedPath].subsystem.push(subsystem);
+      graph[absPath].imports.push({
+        from: importedPath,
+        symbols,
+      });
+
+      linkDependency(graph, absPath, importedPath);
+      if (absPath !== importedPath && !graph[importedPath].reExportedBy.includes(absPath)) {
+        graph[importedPath].reExportedBy.push(absPath);
       }
     }
   }
   return graph;
 }
 
+/**
+ * Follows `reExportedBy` edges outward, returning each path from the file to a barrel
+ * that isn't re-exported any further, e.g. [foo.ts, lib/index.ts, index.ts].
+ */
+export function getReExportChains(graph: UsageGraph, filePath: string, visited = new Set<string>()): string[][] {
+  visited.add(filePath);
+  const barrels = (graph[filePath]?.reExportedBy ?? []).filter(b => !visited.has(b));
+  if (barrels.length === 0) return [[filePath]];
+
+  return barrels.flatMap(barrel =>
+    getReExportChains(graph, barrel, new Set(visited)).map(chain => [filePath, ...chain])
+  );
+}
+
+/**
+ * Files that import `symbol` from `filePath`, either directly or through barrels that pass it
+ * along under the same name (`export *` or `export { symbol } from`).
+ */
+export function findImportersOfSymbol(graph: UsageGraph, filePath: string, symbol: string): string[] {
+  const importers: string[] = [];
+  const visited = new Set<string>([filePath]);
+  const queue = [filePath];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const dependent of graph[current]?.importedBy ?? []) {
+      const symbols = (graph[dependent]?.imports ?? [])
+        .filter(imp => imp.from === current)
+        .flatMap(imp => imp.symbols);
+      const isBarrel = graph[current].reExportedBy.includes(dependent);
+
+      if (isBarrel && (symbols.includes(symbol) || symbols.includes("*"))) {
+        if (!visited.has(dependent)) {
+          visited.add(dependent);
+          queue.push(dependent);
+        }
+      } else if (symbols.includes(symbol) && !importers.includes(dependent)) {
+        importers.push(dependent);
+      }
+    }
+  }
+
+  return importers;
+}
+
+const SPECIFIER_EXTENSIONS = ["", ".ts", ".tsx", ".d.ts", ".js", ".jsx", "/index.ts", "/index.tsx", "/index.js", "/index.jsx"];
+
+/**
+ * Files whose imports point at `targetPath`, including specifiers that no longer resolve
+ * because the target was deleted or moved. Path aliases come from `paths`/`baseUrl`.
+ */
+export function findImportersOfPath(graph: UsageGraph, targetPath: string, compilerOptions: CompilerOptions = {}): string[] {
+  return Object.entries(graph)
+    .filter(([file, node]) =>
+      node.imports.some(imp => imp.from === targetPath) ||
+      node.unresolvedImports.some(imp => getSpecifierCandidates(file, imp.specifier, compilerOptions).includes(targetPath))
+    )
+    .map(([file]) => file);
+}
+
+/** Paths a specifier could refer to, covering extensionless and ESM-style `.js` specifiers */
+function getSpecifierCandidates(importer: string, specifier: string, compilerOptions: CompilerOptions): string[] {
+  const baseDir = compilerOptions.baseUrl ?? process.cwd();
+  const bases: string[] = [];
+
+  if (specifier.startsWith(".")) {
+    bases.push(path.resolve(path.dirname(importer), specifier));
+  } else {
+    for (const [pattern, targets] of Object.entries(compilerOptions.paths ?? {})) {
+      const wildcard = matchPathsPattern(pattern, specifier);
+      if (wildcard === undefined) continue;
+
+      bases.push(...targets.map(target => path.resolve(baseDir, target.replace("*", wildcard))));
+    }
+    if (compilerOptions.baseUrl) bases.push(path.resolve(compilerOptions.baseUrl, specifier));
+  }
+
+  return bases
+    .flatMap(base => [base, base.replace(/\.(c|m)?jsx?$/, "")])
+    .flatMap(base => SPECIFIER_EXTENSIONS.map(ext => base + ext));
+}
+
+/** What `*` stands for when `specifier` matches a `paths` pattern, or undefined if it doesn't match */
+function matchPathsPattern(pattern: string, specifier: string): string | undefined {
+  if (!pattern.includes("*")) return specifier === pattern ? "" : undefined;
+
+  const [prefix, suffix = ""] = pattern.split("*");
+  const isMatch = specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length;
+  return isMatch ? specifier.slice(prefix.length, specifier.length - suffix.length) : undefined;
+}
+
+/** Bare specifiers like `chalk` or `node:path` that aren't relative and don't match a `paths` alias */
+function isPackageSpecifier(specifier: string, compilerOptions: CompilerOptions): boolean {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) return false;
+  return Object.keys(compilerOptions.paths ?? {}).every(pattern => matchPathsPattern(pattern, specifier) === undefined);
+}
+
 export function calculateBlastRadius(graph: UsageGraph, filePath: string): number {
   const visited = new Set<string>();
   const queue = [filePath];
@@ -204,6 +350,10 @@ export function calculateGraphScore(graph: UsageGraph, changedFiles: string[], c
 
     const radiusScore = radius * (config?.riskWeights[RiskFactorType.ImportedInFiles] ?? 1.2);
     const list = formatImportList(dependents, context, options?.verbose);
+    const reExportChains = getReExportChains(graph, absPath).filter(chain => chain.length > 1);
+    const reExportNote = reExportChains.length > 0
+      ? ` (re-exported via ${reExportChains.map(chain => chain.slice(1).map(p => path.relative(context?.basePath ?? process.cwd(), p)).join(' → ')).join(', ')})`
+      : '';
 
 
     if (graph[absPath]?.subsystem.length > 1) {
@@ -219,7 +369,7 @@ export function calculateGraphScore(graph: UsageGraph, changedFiles: string[], c
       subject: file,
       factor: RiskFactorType.ImportedInFiles,
       //points: radiusScore,
-      explanation: `Imported by ${list}`,
+      explanation: `Imported by ${list}${reExportNote}`,
     });
     total += radiusScore;
 
@@ -36,6 +36,8 @@ export interface DiffuseConfig {
     includeUsageGraph?: boolean;
     /** Maximum number of files to analyze in usage graph (default: unlimited) */
     maxFilesInGraph?: number;
+    /** Whether to compare type-check diagnostics between the base ref and HEAD (default: false) */
+    typeCheck?: boolean;
   };
   
   /** Report generation settings */
@@ -73,6 +75,7 @@ export interface ResolvedConfig {
     includeTestCoverage: boolean;
     includeUsageGraph: boolean;
     maxFilesInGraph?: number;
+    typeCheck: boolean;
   };
   
   /** Report generation settings */
@@ -100,6 +103,7 @@ const DEFAULT_CONFIG: ResolvedConfig = {
     includeTestCoverage: true,
     includeUsageGraph: true,
     maxFilesInGraph: undefined,
+    typeCheck: false,
   },
   reporting: {
     includeSuggestions: true,
@@ -162,6 +166,7 @@ export function loadConfig(configPath?: string): ResolvedConfig {
       includeTestCoverage: userConfig.analysis?.includeTestCoverage ?? DEFAULT_CONFIG.analysis.includeTestCoverage,
       includeUsageGraph: userConfig.analysis?.includeUsageGraph ?? DEFAULT_CONFIG.analysis.includeUsageGraph,
       maxFilesInGraph: userConfig.analysis?.maxFilesInGraph ?? DEFAULT_CONFIG.analysis.maxFilesInGraph,
+      typeCheck: userConfig.analysis?.typeCheck ?? DEFAULT_CONFIG.analysis.typeCheck,
     },
     reporting: {
       includeSuggestions: userConfig.reporting?.includeSuggestions ?? DEFAULT_CONFIG.reporting.includeSuggestions,
@@ -4,12 +4,20 @@ export enum RiskFactorType {
   JSXEventChange = 'JSX_EVENT_CHANGE',
   PropsChanged = 'PROPS_CHANGED',
   ReturnTypeChanged = 'RETURN_TYPE_CHANGED',
+  AsyncChange = 'ASYNC_CHANGE',
+  NewThrowPath = 'NEW_THROW_PATH',
   TypeNarrowing = 'TYPE_NARROWING',
   TypeWidening = 'TYPE_WIDENING',
   MissingTest = 'MISSING_TEST',
   ExportRemoved = 'EXPORT_REMOVED',
   ExportAdded = 'EXPORT_ADDED',
+  ExportRenamed = 'EXPORT_RENAMED',
+  ExportDeprecated = 'EXPORT_DEPRECATED',
+  DeprecatedExportRemoved = 'DEPRECATED_EXPORT_REMOVED',
+  DanglingImport = 'DANGLING_IMPORT',
+  TypeCheckError = 'TYPE_CHECK_ERROR',
   DangerousTypeUse = 'DANGEROUS_TYPE_USE',
+  TopLevelSideEffect = 'TOP_LEVEL_SIDE_EFFECT',
   PublicAPI = 'PUBLIC_API',
   ImportedInFiles = 'IMPORTED_IN_FILES',
   UsedInMultipleTrees = 'USED_IN_MULTIPLE_TREES',
@@ -18,18 +26,31 @@ export enum RiskFactorType {
   FileAdded = 'FILE_ADDED',
   FileRenamed = 'FILE_RENAMED',
   LargeChange = 'LARGE_CHANGE',
+  EnumMemberRemoved = 'ENUM_MEMBER_REMOVED',
+  EnumValueChanged = 'ENUM_VALUE_CHANGED',
+  EnumConstChanged = 'ENUM_CONST_CHANGED',
+  HookDependencyChange = 'HOOK_DEPENDENCY_CHANGE',
+  InternalHelperChanged = 'INTERNAL_HELPER_CHANGED',
 }
 
 export const riskWeights: Record<RiskFactorType, number> = {
   [RiskFactorType.JSXEventChange]: 12,
   [RiskFactorType.PropsChanged]: 10,
   [RiskFactorType.ReturnTypeChanged]: 8,
+  [RiskFactorType.AsyncChange]: 10,
+  [RiskFactorType.NewThrowPath]: 6,
   [RiskFactorType.TypeNarrowing]: 6,
   [RiskFactorType.TypeWidening]: 2,
   [RiskFactorType.MissingTest]: 4,
   [RiskFactorType.ExportRemoved]: 10,
   [RiskFactorType.ExportAdded]: 0,
+  [RiskFactorType.ExportRenamed]: 8,
+  [RiskFactorType.ExportDeprecated]: 2,
+  [RiskFactorType.DeprecatedExportRemoved]: 3,
+  [RiskFactorType.DanglingImport]: 15,
+  [RiskFactorType.TypeCheckError]: 12,
   [RiskFactorType.DangerousTypeUse]: 4,
+  [RiskFactorType.TopLevelSideEffect]: 3,
   [RiskFactorType.PublicAPI]: 5,
   [RiskFactorType.ImportedInFiles]: 1.2, // multiplier, special handling
   [RiskFactorType.UsedInMultipleTrees]: 5,
@@ -38,6 +59,11 @@ export const riskWeights: Record<RiskFactorType, number> = {
   [RiskFactorType.FileAdded]: 2,
   [RiskFactorType.FileRenamed]: 5,
   [RiskFactorType.LargeChange]: 7,
+  [RiskFactorType.EnumMemberRemoved]: 10,
+  [RiskFactorType.EnumValueChanged]: 8,
+  [RiskFactorType.EnumConstChanged]: 6,
+  [RiskFactorType.HookDependencyChange]: 8,
+  [RiskFactorType.InternalHelperChanged]: 4,
 };
 
 export interface RiskInput {
@@ -58,12 +84,20 @@ export const suggestions: Record<RiskFactorType, string> = {
   [RiskFactorType.JSXEventChange]: "Test interactions or wrap handler in a stable callback if behavior changed.",
   [RiskFactorType.PropsChanged]: "Ensure consuming components still function correctly; consider adding story/test cases.",
   [RiskFactorType.ReturnTypeChanged]: "Review all consumers to confirm they still handle the new return shape.",
+  [RiskFactorType.AsyncChange]: "Find callers that don't `await` (or that still `await`/`.then()`) the result; un-awaited calls silently get a Promise or iterator instead of the value.",
+  [RiskFactorType.NewThrowPath]: "Callers may not expect this to throw or reject; check they have try/catch or `.catch()` around the call, or return an error value instead.",
   [RiskFactorType.TypeNarrowing]: "Check for null/undefined/edge cases in consumers that may now fail silently.",
   [RiskFactorType.TypeWidening]: "Widening is generally safe, but review if it affects validation or runtime checks.",
   [RiskFactorType.MissingTest]: "Add or update tests that reflect the changed behavior of this symbol.",
   [RiskFactorType.ExportRemoved]: "Confirm this export isn't used outside this repo or by internal tooling.",
   [RiskFactorType.ExportAdded]: "Document or test this export if it's intended for use outside this file.",
+  [RiskFactorType.ExportRenamed]: "Update every import of the old name, or keep a deprecated alias export until consumers migrate.",
+  [RiskFactorType.ExportDeprecated]: "Call out the deprecation in the changelog or release notes and point consumers at the replacement before it's removed.",
+  [RiskFactorType.DeprecatedExportRemoved]: "Consumers were warned, but removing it still breaks anyone who hasn't migrated; ship it in a release they expect to break.",
+  [RiskFactorType.DanglingImport]: "These importers will fail to compile or load; update them in this PR or restore the removed code.",
+  [RiskFactorType.TypeCheckError]: "This file compiled at the base ref but not at HEAD; run `tsc --noEmit` locally and fix it before merging.",
   [RiskFactorType.DangerousTypeUse]: "Avoid `any`, `as`, or non-null assertions unless necessary; review with care.",
+  [RiskFactorType.TopLevelSideEffect]: "Code at module scope runs as soon as any importer loads the file; consider moving it into an explicit init function.",
   [RiskFactorType.PublicAPI]: "Changing a public API? Double-check downstream consumers or publish notes.",
   [RiskFactorType.ImportedInFiles]: "High usage: prioritize test coverage and backward compatibility.",
   [RiskFactorType.UsedInMultipleTrees]: "Used across distinct app areas — check for coupled assumptions or side effects.",
@@ -72,6 +106,11 @@ export const suggestions: Record<RiskFactorType, string> = {
   [RiskFactorType.FileAdded]: "File was added",
   [RiskFactorType.FileRenamed]: "File was renamed - Check downstream imports",
   [RiskFactorType.LargeChange]: "Large change: consider breaking up the PR or adding more tests. Review carefully.",
+  [RiskFactorType.EnumMemberRemoved]: "Search for references to the removed member, including persisted or serialized values.",
+  [RiskFactorType.EnumValueChanged]: "Stored or transmitted values may now map to a different member — plan a migration if needed.",
+  [RiskFactorType.EnumConstChanged]: "Switching between `const enum` and `enum` changes emitted code; check isolatedModules builds and runtime lookups.",
+  [RiskFactorType.HookDependencyChange]: "Verify the hook still re-runs exactly when it should; watch for stale closures or render loops.",
+  [RiskFactorType.InternalHelperChanged]: "A non-exported helper changed behavior; test the exports that call it, not just the helper.",
 };
 
 export function encodeGitHubFilePath(path: string): string {
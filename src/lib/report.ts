@@ -70,18 +70,32 @@ function getFileRisks(data: any, config: ResolvedConfig): Record<string, { total
       file: score.subject,
       score,
     })),
+    ...(data.typeCheck?.typeCheckScore || []).map((score: ScoredRisk) => ({
+      file: score.subject,
+      score,
+    })),
   ];
 
   for (const { file, score } of allScores) {
     if (!fileRisks[file]) fileRisks[file] = { total: 0, risks: [] };
-    fileRisks[file].total += config.riskWeights[score.factor as RiskFactorType] || 0;
-    score.points = config.riskWeights[score.factor as RiskFactorType] || 0; // Ensure points are set
+    // Risks weighted during analysis (e.g. by blast radius) arrive with their points already set
+    score.points = score.points ?? (config.riskWeights[score.factor as RiskFactorType] || 0);
+    fileRisks[file].total += score.points;
     score.suggestion = config.reporting.suggestions[score.factor as RiskFactorType] || suggestions[score.factor as RiskFactorType]; // TODO: remove explanation from initial calculation
     fileRisks[file].risks.push(score);
   }
 
   return fileRisks;
 }
+/** Exports that gained a `@deprecated` tag, so consumers can be told before they're removed */
+function getNewDeprecations(data: any): { file: string; explanation: string }[] {
+  return Object.entries(data.breakingChanges.scores || {}).flatMap(([file, obj]: [string, any]) =>
+    (obj.scores || [])
+      .filter((score: ScoredRisk) => score.factor === RiskFactorType.ExportDeprecated)
+      .map((score: ScoredRisk) => ({ file, explanation: score.explanation }))
+  );
+}
+
 // TODO: if we omit tests, we end up teling users we analyzed a smaller number of files than we did. Maybe remove suggestion and add 0 points but still return the file?
 export function generateTerminalReport(data: any, config: ResolvedConfig, options?: { suggestions?: boolean, verbose?: boolean, tests?: boolean }): string {
   const fileRisks = getFileRisks(data, config);
@@ -111,9 +125,10 @@ export function generateTerminalReport(data: any, config: ResolvedConfig, option
   let output = '\n' + chalk.bold.underline('🚨 RISK ANALYSIS REPORT\n') + '\n';
   
   const totalSkipped = Object.values(data.breakingChanges.skippedFiles).flat().length;
+  const cosmeticFiles: string[] = data.breakingChanges.skippedFiles.cosmetic || [];
   if (options?.verbose) {
     output += `Git found ${totalFiles + totalSkipped} files. ${totalFiles} were analyzed. ${data.breakingChanges.skippedFiles.unsupported.length} unsupported file extensions, 
-    ${data.breakingChanges.skippedFiles.failed.length} failed, ${data.breakingChanges.skippedFiles.empty.length} empty, and ${data.breakingChanges.skippedFiles.tests.length} tests were skipped\n\n`;
+    ${data.breakingChanges.skippedFiles.failed.length} failed, ${data.breakingChanges.skippedFiles.empty.length} empty, ${data.breakingChanges.skippedFiles.tests.length} tests, and ${cosmeticFiles.length} cosmetic changes were skipped\n\n`;
   } else {
     output += `Git found ${totalFiles + totalSkipped} files, including metadata, ghost changes, tests, and unsupported file extensions. ${totalFiles} were analyzed\n\n`;
   }
@@ -163,6 +178,19 @@ export function generateTerminalReport(data: any, config: ResolvedConfig, option
     }
   }
 
+  const deprecations = getNewDeprecations(data);
+  if (deprecations.length > 0) {
+    output += `\n${chalk.bold.underline('🗑️  Newly deprecated')}\n`;
+    for (const { file, explanation } of deprecations) {
+      output += `${chalk.bold(file)}: ${explanation}\n`;
+    }
+  }
+
+  for (const file of cosmeticFiles) {
+    output += `\n${chalk.bold(file)}\n`;
+    output += `${chalk.dim('Cosmetic change: formatting or comments only (0.00 pts)')}\n`;
+  }
+
   output += '\n';
   output += '\n---\n';
   output += 'This report was generated by Diffuse (Open Source)\n';
@@ -174,6 +202,7 @@ export function generateMarkdownReport(data: any, config: ResolvedConfig, contex
   const fileRisks = getFileRisks(data, config);
   const lineStats = data.lineStats || {};
   const { topFile, returnTypeChanges, missingTests, filesWithMultiImports, totalFiles } = extractSummary(fileRisks, lineStats, config);
+  const LARGE_CHANGE_PERCENTAGE_THRESHOLD = config?.thresholds.largeChangePercentage ?? 20;
   
   // Calculate final scores including Large Change factor for sorting
   const finalScores = Object.entries(fileRisks).map(([file, { total, risks }]) => {
@@ -182,7 +211,7 @@ export function generateMarkdownReport(data: any, config: ResolvedConfig, contex
     const percentageChanged = stats.totalLines > 0 ? (totalChanged / stats.totalLines) * 100 : 0;
     
     let finalScore = total;
-    if (percentageChanged > LARGE_CHANGE_PERCENTAGE_THRESHOLD) { // LARGE_CHANGE_PERCENTAGE_THRESHOLD
+    if (percentageChanged > LARGE_CHANGE_PERCENTAGE_THRESHOLD) {
       finalScore += config.riskWeights[RiskFactorType.LargeChange];
     }
     
@@ -193,13 +222,13 @@ export function generateMarkdownReport(data: any, config: ResolvedConfig, contex
   finalScores.sort((a, b) => b.finalScore - a.finalScore);
   
   const averageRisk = data.totalRiskScore / totalFiles;
-  const LARGE_CHANGE_PERCENTAGE_THRESHOLD = config?.thresholds.largeChangePercentage ?? 20;
 
   let output = `# 🚨 RISK ANALYSIS REPORT\n\n`;
   const totalSkipped = Object.values(data.breakingChanges.skippedFiles).flat().length;
+  const cosmeticFiles: string[] = data.breakingChanges.skippedFiles.cosmetic || [];
   if (options?.verbose) {
     output += `Git found ${totalFiles + totalSkipped} files. ${totalFiles} were analyzed. ${data.breakingChanges.skippedFiles.unsupported.length} unsupported file extensions, 
-    ${data.breakingChanges.skippedFiles.failed.length} failed, ${data.breakingChanges.skippedFiles.empty.length} empty, and ${data.breakingChanges.skippedFiles.tests.length} tests were skipped\n\n`;
+    ${data.breakingChanges.skippedFiles.failed.length} failed, ${data.breakingChanges.skippedFiles.empty.length} empty, ${data.breakingChanges.skippedFiles.tests.length} tests, and ${cosmeticFiles.length} cosmetic changes were skipped\n\n`;
   } else {
     output += `Git found ${totalFiles + totalSkipped} files, including metadata, ghost changes, tests, and unsupported file extensions. ${totalFiles} were analyzed\n\n`;
   }
@@ -265,6 +294,19 @@ export function generateMarkdownReport(data: any, config: ResolvedConfig, contex
     }
   }
 
+  const deprecations = getNewDeprecations(data);
+  if (deprecations.length > 0) {
+    output += `\n## 🗑️ Newly deprecated\n`;
+    for (const { file, explanation } of deprecations) {
+      output += `- \`${file}\`: ${explanation}\n`;
+    }
+  }
+
+  for (const file of cosmeticFiles) {
+    output += `\n## ${file}\n`;
+    output += `_Cosmetic change: formatting or comments only (0.00 pts)_\n`;
+  }
+
   output += `\n---\n_This report was generated by **Diffuse** (Open Source)_\n`;
   output += `_Got feedback? [I'd love to hear it](https://docs.google.com/forms/d/e/1FAIpQLScu4x26hKju8MhxG6dhSctWDuG7A3RT0DrckzyK0E_optgZmA/viewform?usp=header)_\n`;
   return output;
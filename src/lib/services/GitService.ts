@@ -90,6 +90,60 @@ export class GitService {
     };
   }
 
+  /**
+   * List every file tracked at a ref, relative to the repository root
+   */
+  listFilesAtRef(ref: string): string[] {
+    const result = spawnSync('git', ['ls-tree', '-r', '--name-only', '--full-tree', '-z', ref], {
+      encoding: this.encoding,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+
+    if (result.status !== 0) {
+      if (this.verbose) console.error(`Failed to list files at ${ref}:`, result.stderr);
+      return [];
+    }
+
+    return result.stdout.split('\0').filter(Boolean);
+  }
+
+  /**
+   * Get the contents of many files at a ref in a single `git cat-file --batch` call.
+   * Files that don't exist at the ref are left out of the result.
+   */
+  getFilesFromGit(ref: string, filePaths: string[]): Map<string, string> {
+    const contents = new Map<string, string>();
+    if (filePaths.length === 0) return contents;
+
+    const result = spawnSync('git', ['cat-file', '--batch'], {
+      input: filePaths.map(filePath => `${ref}:${filePath}`).join('\n') + '\n',
+      maxBuffer: 512 * 1024 * 1024,
+    });
+
+    if (result.status !== 0) {
+      if (this.verbose) console.error(`Failed to read files at ${ref}:`, result.stderr?.toString());
+      return contents;
+    }
+
+    // Each entry is "<sha> <type> <size>\n<content>\n", or "<object> missing\n"
+    const output: Buffer = result.stdout;
+    let offset = 0;
+    for (const filePath of filePaths) {
+      const headerEnd = output.indexOf(0x0a, offset);
+      if (headerEnd === -1) break;
+
+      const header = output.toString('utf8', offset, headerEnd);
+      offset = headerEnd + 1;
+      if (header.endsWith(' missing')) continue;
+
+      const size = Number(header.split(' ')[2]);
+      contents.set(filePath, output.toString(this.encoding, offset, offset + size));
+      offset += size + 1;
+    }
+
+    return contents;
+  }
+
   /**
    * Get file content from the current working tree
    */
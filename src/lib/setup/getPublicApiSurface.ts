@@ -0,0 +1,126 @@
+import fs from "fs";
+import path from "path";
+import { Node, Project, SourceFile } from "ts-morph";
+import { detectProjectProfile } from "./getProjectProfile.js";
+
+export type PublicApiSurface = {
+  /** Absolute path of each file → exported name → entry point it's reachable from */
+  symbols: Map<string, Map<string, string>>;
+  /** Files whose every export is public (entry points and `export *` targets) → entry point */
+  wholeFiles: Map<string, string>;
+};
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", "/index.ts", "/index.tsx", "/index.js"];
+
+/**
+ * Reads `main`/`module`/`types`/`exports` from package.json plus the profile's entry point
+ * heuristics, and maps each back to a source file in the project (e.g. `dist/index.js` → `src/index.ts`).
+ */
+export function getPackageEntryPoints(project: Project, rootDir: string = process.cwd()): string[] {
+  const pkgJsonPath = path.join(rootDir, "package.json");
+  const pkg = fs.existsSync(pkgJsonPath) ? JSON.parse(fs.readFileSync(pkgJsonPath, "utf-8")) : {};
+
+  const targets = [
+    pkg.main,
+    pkg.module,
+    pkg.types,
+    pkg.typings,
+    ...collectExportTargets(pkg.exports),
+    ...detectProjectProfile(rootDir).entryPoints,
+  ].filter((t): t is string => typeof t === "string");
+
+  const entryPoints = new Set<string>();
+  for (const target of targets) {
+    const resolved = resolveSourcePath(project, rootDir, target);
+    if (resolved) entryPoints.add(resolved);
+  }
+
+  return [...entryPoints];
+}
+
+export function buildPublicApiSurface(project: Project, entryPoints: string[], rootDir: string = process.cwd()): PublicApiSurface {
+  const surface: PublicApiSurface = { symbols: new Map(), wholeFiles: new Map() };
+
+  for (const entryPath of entryPoints) {
+    const entryFile = project.getSourceFile(entryPath);
+    if (!entryFile) continue;
+
+    const entryLabel = path.relative(rootDir, entryPath);
+    markWholeFile(surface, entryFile, entryLabel);
+
+    // getExportedDeclarations() already follows named and wildcard re-exports to the origin
+    for (const [exportName, decls] of entryFile.getExportedDeclarations()) {
+      for (const decl of decls) {
+        const originPath = decl.getSourceFile().getFilePath();
+        const originName = (Node.hasName(decl) ? decl.getName() : undefined) ?? exportName;
+
+        const names = surface.symbols.get(originPath) ?? new Map<string, string>();
+        surface.symbols.set(originPath, names);
+        if (!names.has(originName)) names.set(originName, entryLabel);
+      }
+    }
+  }
+
+  return surface;
+}
+
+/**
+ * Combines the HEAD and base-ref surfaces. Exports removed at HEAD no longer resolve from the
+ * entry points there, so only the base-ref surface knows they were public. HEAD wins on conflicts.
+ */
+export function mergePublicApiSurfaces(head: PublicApiSurface, base: PublicApiSurface): PublicApiSurface {
+  const merged: PublicApiSurface = { symbols: new Map(), wholeFiles: new Map([...base.wholeFiles, ...head.wholeFiles]) };
+
+  for (const surface of [base, head]) {
+    for (const [filePath, names] of surface.symbols) {
+      merged.symbols.set(filePath, new Map([...(merged.symbols.get(filePath) ?? []), ...names]));
+    }
+  }
+
+  return merged;
+}
+
+/** Returns the entry point that exposes `name` from `filePath`, if any */
+export function findPublicEntryPoint(surface: PublicApiSurface, filePath: string, name: string): string | undefined {
+  return surface.symbols.get(filePath)?.get(name) ?? surface.wholeFiles.get(filePath);
+}
+
+function markWholeFile(surface: PublicApiSurface, sourceFile: SourceFile, entryLabel: string) {
+  const filePath = sourceFile.getFilePath();
+  if (surface.wholeFiles.has(filePath)) return;
+  surface.wholeFiles.set(filePath, entryLabel);
+
+  // `export * from './x'` exposes anything x exports later, including exports that get removed
+  for (const exportDecl of sourceFile.getExportDeclarations()) {
+    if (exportDecl.hasNamedExports() || exportDecl.getNamespaceExport()) continue;
+
+    const target = exportDecl.getModuleSpecifierSourceFile();
+    if (target) markWholeFile(surface, target, entryLabel);
+  }
+}
+
+function collectExportTargets(exportsField: unknown): string[] {
+  if (typeof exportsField === "string") {
+    return exportsField.includes("*") || exportsField.endsWith("package.json") ? [] : [exportsField];
+  }
+  if (Array.isArray(exportsField)) return exportsField.flatMap(collectExportTargets);
+  if (exportsField && typeof exportsField === "object") {
+    return Object.values(exportsField).flatMap(collectExportTargets);
+  }
+  return [];
+}
+
+function resolveSourcePath(project: Project, rootDir: string, target: string): string | undefined {
+  const withoutExt = target.replace(/^\.\//, "").replace(/(\.d)?\.(c|m)?(j|t)sx?$/, "");
+  // Build output usually mirrors the source tree
+  const bases = [withoutExt, withoutExt.replace(/^(dist|build|lib|out)\//, "src/")];
+
+  for (const base of bases) {
+    for (const ext of SOURCE_EXTENSIONS) {
+      const candidate = path.resolve(rootDir, base + ext);
+      if (project.getSourceFile(candidate)) return candidate;
+    }
+  }
+
+  return undefined;
+}
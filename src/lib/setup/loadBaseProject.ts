@@ -0,0 +1,141 @@
+import { InMemoryFileSystemHost, Project, RuntimeDirEntry } from "ts-morph";
+import fs from "fs";
+import path from "path";
+import fg from "fast-glob";
+import { GitService } from "../services/GitService.js";
+import { fallbackCompilerOptions } from "./loadProjectWithFallback.js";
+
+type LoadBaseOptions = {
+  rootDir?: string;
+  verbose?: boolean;
+};
+
+const BASE_FILE_PATTERN = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$|(^|\/)package\.json$/;
+const EXCLUDED_DIRS = ["node_modules", "dist", "build", ".next"];
+const CONFIG_FILE_PATTERNS = ["**/tsconfig*.json", "**/jsconfig.json"];
+
+/**
+ * In-memory tree of the base ref that reads through to the real disk for `node_modules`,
+ * so packages and `@types` resolve exactly as they do at HEAD without being copied.
+ */
+export class BaseRefFileSystemHost extends InMemoryFileSystemHost {
+  constructor(private readonly rootDir: string) {
+    super();
+  }
+
+  override getCurrentDirectory(): string {
+    return this.rootDir;
+  }
+
+  override fileExistsSync(filePath: string): boolean {
+    return isDependencyPath(filePath) ? isFile(filePath) : super.fileExistsSync(filePath);
+  }
+
+  override async fileExists(filePath: string): Promise<boolean> {
+    return this.fileExistsSync(filePath);
+  }
+
+  override directoryExistsSync(dirPath: string): boolean {
+    return isDependencyPath(dirPath) ? isDirectory(dirPath) : super.directoryExistsSync(dirPath);
+  }
+
+  override async directoryExists(dirPath: string): Promise<boolean> {
+    return this.directoryExistsSync(dirPath);
+  }
+
+  override readFileSync(filePath: string, encoding?: string): string {
+    return isDependencyPath(filePath)
+      ? fs.readFileSync(filePath, (encoding ?? "utf-8") as BufferEncoding)
+      : super.readFileSync(filePath, encoding);
+  }
+
+  override async readFile(filePath: string, encoding?: string): Promise<string> {
+    return this.readFileSync(filePath, encoding);
+  }
+
+  override readDirSync(dirPath: string): RuntimeDirEntry[] {
+    if (!isDependencyPath(dirPath)) return super.readDirSync(dirPath);
+
+    return fs.readdirSync(dirPath, { withFileTypes: true }).map(entry => ({
+      name: path.join(dirPath, entry.name),
+      isFile: entry.isFile(),
+      isDirectory: entry.isDirectory(),
+      isSymlink: entry.isSymbolicLink(),
+    }));
+  }
+
+  override realpathSync(filePath: string): string {
+    if (!isDependencyPath(filePath)) return super.realpathSync(filePath);
+
+    try {
+      return fs.realpathSync(filePath);
+    } catch {
+      return filePath;
+    }
+  }
+}
+
+/**
+ * Materializes the tree at `baseRef` into a second Project so old declarations are type-checked
+ * with the same module resolution as HEAD. The tsconfig files come from the working tree, so both
+ * sides compile with the same settings even if the config itself changed.
+ */
+export function loadBaseProject(gitService: GitService, baseRef: string, options: LoadBaseOptions = {}): Project {
+  const { rootDir = process.cwd(), verbose = false } = options;
+
+  const baseFiles = gitService.listFilesAtRef(baseRef).filter(file =>
+    BASE_FILE_PATTERN.test(file) && !file.split("/").some(segment => EXCLUDED_DIRS.includes(segment))
+  );
+  if (baseFiles.length === 0) throw new Error(`No source files found at ${baseRef}`);
+
+  const fileSystem = new BaseRefFileSystemHost(rootDir);
+  const contents = gitService.getFilesFromGit(baseRef, baseFiles);
+  for (const [file, content] of contents) {
+    fileSystem.writeFileSync(path.join(rootDir, file), content);
+  }
+
+  const configFiles = fg.sync(CONFIG_FILE_PATTERNS, {
+    cwd: rootDir,
+    ignore: EXCLUDED_DIRS.map(dir => `**/${dir}/**`),
+  });
+  for (const file of configFiles) {
+    fileSystem.writeFileSync(path.join(rootDir, file), fs.readFileSync(path.join(rootDir, file), "utf-8"));
+  }
+
+  if (verbose) console.log(`Loaded ${contents.size} files from ${baseRef}`);
+
+  const tsconfigPath = path.join(rootDir, "tsconfig.json");
+  if (fileSystem.fileExistsSync(tsconfigPath)) {
+    return new Project({ tsConfigFilePath: tsconfigPath, fileSystem });
+  }
+
+  const project = new Project({
+    compilerOptions: { ...fallbackCompilerOptions, baseUrl: rootDir },
+    fileSystem,
+  });
+  for (const [file, content] of contents) {
+    if (!file.endsWith("package.json")) project.createSourceFile(path.join(rootDir, file), content, { overwrite: true });
+  }
+
+  return project;
+}
+
+function isDependencyPath(filePath: string): boolean {
+  return filePath.split(/[\\/]/).includes("node_modules");
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isDirectory(dirPath: string): boolean {
+  try {
+    return fs.statSync(dirPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
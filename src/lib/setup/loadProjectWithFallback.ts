@@ -3,6 +3,16 @@ import fs from "fs";
 import path from "path";
 import fg from "fast-glob";
 
+export const fallbackCompilerOptions: CompilerOptions = {
+  allowJs: true,
+  checkJs: false,
+  jsx: 2, // React
+  target: 99,
+  module: 99,
+  moduleResolution: 2,
+  baseUrl: "./",
+};
+
 type LoadOptions = {
   rootDir?: string;
   include?: string[]; // Optional globs
@@ -37,17 +47,7 @@ export function loadProjectWithFallback(options: LoadOptions = {}): Project {
   } else {
     if (verbose) console.log("⚠️ No tsconfig.json found — using fallback compiler options");
 
-    const compilerOptions: CompilerOptions = {
-      allowJs: true,
-      checkJs: false,
-      jsx: 2, // React
-      target: 99,
-      module: 99,
-      moduleResolution: 2,
-      baseUrl: "./",
-    };
-
-    project = new Project({ compilerOptions });
+    project = new Project({ compilerOptions: fallbackCompilerOptions });
     
     // Use fast-glob to avoid node_modules, dist, .next, etc.
     const exclude = ["**/node_modules/**", "**/dist/**", "**/.next/**", "**/build/**"];
@@ -0,0 +1,127 @@
+import path from "path";
+import { Diagnostic, Project, ts } from "ts-morph";
+import { RiskFactorType, ScoredRisk } from "./constants.js";
+import { FileChange } from "./setup/getChangedFilesWithStatus.js";
+import { UsageGraph, findImportersOfPath } from "./buildUsageGraph.js";
+import { ResolvedConfig } from "./config.js";
+
+type TypeErrorSite = {
+  line: number | undefined;
+  code: number;
+  message: string;
+};
+
+/**
+ * Type-checks the changed files and their direct dependents at both the base ref and HEAD,
+ * and scores diagnostics that only exist at HEAD. Unless the base-ref project is passed in, the base
+ * tree is HEAD with the changed files reverted, so unchanged files don't need to be fetched from git.
+ */
+export function calculateTypeCheckDelta(
+  project: Project,
+  files: FileChange[],
+  graph: UsageGraph,
+  getOldCode: (filePath: string) => string,
+  options?: { verbose: boolean; baseProject?: Project },
+  config?: ResolvedConfig
+): { totalScore: number; typeCheckScore: ScoredRisk[] } {
+  const compilerOptions = project.getCompilerOptions();
+
+  // HEAD path → the path the same file had at the base ref (undefined for added files)
+  const filesToCheck = new Map<string, string | undefined>();
+  for (const file of files) {
+    const headPath = path.resolve(file.path);
+    const basePath = file.status === 'A' || file.status === 'U' ? undefined : path.resolve(file.renamedFrom ?? file.path);
+
+    if (file.status !== 'D') filesToCheck.set(headPath, basePath);
+    for (const dependent of graph[headPath]?.importedBy ?? []) {
+      if (!filesToCheck.has(dependent)) filesToCheck.set(dependent, dependent);
+    }
+    // Importers of a deleted or moved path no longer resolve, so they aren't in `importedBy`
+    if (basePath && (file.status === 'D' || basePath !== headPath)) {
+      for (const importer of findImportersOfPath(graph, basePath, compilerOptions)) {
+        if (!filesToCheck.has(importer)) filesToCheck.set(importer, importer);
+      }
+    }
+  }
+
+  const baseProject = options?.baseProject ?? createBaseProject(project, files, getOldCode);
+  const scores: ScoredRisk[] = [];
+  let total = 0;
+
+  for (const [headPath, basePath] of filesToCheck) {
+    const headFile = project.getSourceFile(headPath);
+    if (!headFile || headFile.isInNodeModules() || headFile.isDeclarationFile()) continue;
+
+    const baseFile = basePath ? baseProject.getSourceFile(basePath) : undefined;
+    const existing = new Map<string, number>();
+    for (const error of baseFile ? collectTypeErrors(baseFile.getPreEmitDiagnostics(), baseFile.getFilePath()) : []) {
+      const key = `${error.code}:${error.message}`;
+      existing.set(key, (existing.get(key) ?? 0) + 1);
+    }
+
+    const relativePath = path.relative(process.cwd(), headPath);
+    for (const error of collectTypeErrors(headFile.getPreEmitDiagnostics(), headPath)) {
+      // Matched by code and message rather than line, so errors that only moved aren't reported
+      const key = `${error.code}:${error.message}`;
+      const remaining = existing.get(key) ?? 0;
+      if (remaining > 0) {
+        existing.set(key, remaining - 1);
+        continue;
+      }
+
+      if (options?.verbose) console.log(`New type error in ${relativePath}: TS${error.code} ${error.message}`);
+      scores.push({
+        subject: relativePath,
+        factor: RiskFactorType.TypeCheckError,
+        explanation: `New type error TS${error.code}${error.line ? ` at line ${error.line}` : ""}: ${error.message}`,
+      });
+      total += config?.riskWeights[RiskFactorType.TypeCheckError] ?? 12;
+    }
+  }
+
+  return {
+    totalScore: total,
+    typeCheckScore: scores,
+  };
+}
+
+function createBaseProject(project: Project, files: FileChange[], getOldCode: (filePath: string) => string): Project {
+  // Sharing the file system keeps module resolution (node_modules, path aliases) identical to HEAD
+  const baseProject = new Project({
+    compilerOptions: project.getCompilerOptions(),
+    fileSystem: project.getFileSystem(),
+    skipAddingFilesFromTsConfig: true,
+  });
+
+  for (const sourceFile of project.getSourceFiles()) {
+    if (sourceFile.isInNodeModules()) continue;
+    baseProject.createSourceFile(sourceFile.getFilePath(), sourceFile.getFullText(), { overwrite: true });
+  }
+
+  for (const file of files) {
+    const headPath = path.resolve(file.path);
+    if (file.status === 'A' || file.status === 'U' || file.status === 'R') {
+      const added = baseProject.getSourceFile(headPath);
+      if (added) baseProject.removeSourceFile(added);
+    }
+    if (file.status === 'A' || file.status === 'U') continue;
+
+    const basePath = file.renamedFrom ?? file.path;
+    const oldText = getOldCode(basePath);
+    if (oldText === "Skipped") continue;
+
+    baseProject.createSourceFile(path.resolve(basePath), oldText, { overwrite: true });
+  }
+
+  return baseProject;
+}
+
+function collectTypeErrors(diagnostics: Diagnostic[], filePath: string): TypeErrorSite[] {
+  return diagnostics
+    .filter(d => d.getCategory() === ts.DiagnosticCategory.Error && d.getSourceFile()?.getFilePath() === filePath)
+    .map(d => ({
+      line: d.getLineNumber(),
+      code: d.getCode(),
+      message: ts.flattenDiagnosticMessageText(d.compilerObject.messageText, "\n").split("\n")[0],
+    }));
+}
@@ -153,6 +153,34 @@ describe('GitService', () => {
     });
   });
 
+  describe('getFilesFromGit', () => {
+    it('should split batch output by byte size and skip missing files', () => {
+      const stdout = Buffer.from([
+        'aaa blob 22\nexport const a = "é";\n',
+        'main:missing.ts missing\n',
+        'bbb blob 12\nline1\nline2\n\n',
+      ].join(''));
+      mockSpawnSync.mockReturnValueOnce({
+        stdout,
+        stderr: Buffer.from(''),
+        status: 0,
+        signal: null,
+        pid: 123,
+        output: [null, stdout, Buffer.from('')]
+      });
+
+      const result = gitService.getFilesFromGit('main', ['a.ts', 'missing.ts', 'b.ts']);
+
+      expect([...result]).toEqual([
+        ['a.ts', 'export const a = "é";'],
+        ['b.ts', 'line1\nline2\n'],
+      ]);
+      expect(mockSpawnSync).toHaveBeenCalledWith('git', ['cat-file', '--batch'], expect.objectContaining({
+        input: 'main:a.ts\nmain:missing.ts\nmain:b.ts\n'
+      }));
+    });
+  });
+
   describe('getCurrentFileContent', () => {
     it('should return current file content', () => {
       mockFs.readFileSync.mockReturnValueOnce('current file content');
@@ -0,0 +1,1105 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { Project } from 'ts-morph';
+import { analyzeBreakingChanges, analyzeFile } from '../src/lib/analyzeBreakingChanges.js';
+import { getDefaultConfig } from '../src/lib/config.js';
+import { RiskFactorType } from '../src/lib/constants.js';
+
+const analyze = (oldCode: string, newCode: string, fileName = 'src/example.ts') => {
+  const oldProject = new Project({ useInMemoryFileSystem: true });
+  const project = new Project({ useInMemoryFileSystem: true });
+  const oldSourceFile = oldProject.createSourceFile(fileName, oldCode);
+  const newSourceFile = project.createSourceFile(fileName, newCode);
+
+  return analyzeFile(newSourceFile, oldSourceFile, project, getDefaultConfig());
+};
+
+describe('analyzeFile', () => {
+  describe('Type Aliases', () => {
+    it('should report removed, added and newly required props on object types', () => {
+      const result = analyze(
+        'export type User = { id: string; name?: string; email: string };',
+        'export type User = { id: string; name: string; age: number };'
+      );
+
+      expect(result.changedExports).toContain('User');
+      expect(result.issues).toHaveLength(3);
+      expect(result.issues).toContain('Type `User`: Prop `name` is now required');
+      expect(result.issues).toContain('Type `User`: Prop `email` was removed');
+      expect(result.issues).toContain('Type `User`: Prop `age` was added');
+      expect(result.scores.every(s => s.factor === RiskFactorType.PropsChanged)).toBe(true);
+      expect(result.fileScore).toBe(30);
+    });
+
+    it('should resolve props through intersections', () => {
+      const result = analyze(
+        'type Base = { id: string };\nexport type User = Base & { name: string };',
+        'type Base = { key: string };\nexport type User = Base & { name: string };'
+      );
+
+      expect(result.issues).toContain('Type `User`: Prop `id` was removed');
+      expect(result.issues).toContain('Type `User`: Prop `key` was added');
+    });
+
+    it('should flag removed union members as narrowing', () => {
+      const result = analyze(
+        "export type Role = 'admin' | 'editor' | 'viewer';",
+        "export type Role = 'admin' | 'viewer' | 'guest';"
+      );
+
+      const narrowing = result.scores.filter(s => s.factor === RiskFactorType.TypeNarrowing);
+      const widening = result.scores.filter(s => s.factor === RiskFactorType.TypeWidening);
+
+      expect(narrowing).toHaveLength(1);
+      expect(narrowing[0].explanation).toContain('"editor"');
+      expect(widening).toHaveLength(1);
+      expect(widening[0].explanation).toContain('"guest"');
+    });
+
+    it('should not count union members covered by a broader type as removed', () => {
+      const result = analyze("export type Id = 'a' | 'b';", 'export type Id = string;');
+
+      expect(result.issues).toEqual(['Type `Id`: Union member `string` was added']);
+      expect(result.scores.map(s => s.factor)).toEqual([RiskFactorType.TypeWidening]);
+    });
+
+    it('should compare aliases of primitives, functions and arrays as a whole', () => {
+      const result = analyze(
+        'export type Id = string;\nexport type Handler = (a: string) => void;\nexport type Ids = string[];',
+        'export type Id = number;\nexport type Handler = (a: number) => void;\nexport type Ids = number[];'
+      );
+
+      expect(result.issues).toEqual([
+        'Type `Id`: Aliased type changed from `string` to `number`',
+        'Type `Handler`: Aliased type changed from `(a: string) => void` to `(a: number) => void`',
+        'Type `Ids`: Aliased type changed from `string[]` to `number[]`',
+      ]);
+    });
+
+    it('should not report unchanged aliases', () => {
+      const code = "export type Role = 'admin' | 'viewer';\nexport type User = { id: string; role: Role };";
+      const result = analyze(code, code);
+
+      expect(result.issues).toHaveLength(0);
+      expect(result.fileScore).toBe(0);
+    });
+  });
+
+  describe('Classes', () => {
+    it('should report removed members, visibility and static changes per member', () => {
+      const result = analyze(
+        `export class UserService {
+          static instance: UserService;
+          public cache: string[] = [];
+          protected retries = 3;
+          private secret = '';
+          save(id: string): void {}
+          load(): void {}
+        }`,
+        `export class UserService {
+          instance: UserService;
+          private cache: string[] = [];
+          protected retries = 3;
+          save(id: string): void {}
+        }`
+      );
+
+      expect(result.issues).toContain('Class `UserService`: Property `instance` is no longer static');
+      expect(result.issues).toContain('Class `UserService`: Property `cache` visibility changed from public to private');
+      expect(result.issues).toContain('Class `UserService`: Method `load` was removed');
+      expect(result.issues.some(i => i.includes('secret'))).toBe(false);
+      expect(result.scores.map(s => s.subject)).toContain('UserService.load');
+    });
+
+    it('should compare method signatures and constructor parameters', () => {
+      const result = analyze(
+        `export class Repo {
+          constructor(url: string) {}
+          find(id: string, limit: number): string | undefined { return undefined; }
+        }`,
+        `export class Repo {
+          constructor(url: string, token: string) {}
+          find(id: string): string | undefined { return undefined; }
+        }`
+      );
+
+      expect(result.issues).toContain('Class `Repo`: Constructor: Added required parameter `token`');
+      expect(result.issues).toContain('Class `Repo`: Method `find`: Removed parameter `limit`');
+      expect(result.scores.find(s => s.subject === 'Repo.find')?.factor).toBe(RiskFactorType.TypeNarrowing);
+    });
+
+    it('should flag constructors that become private', () => {
+      const result = analyze(
+        'export class Client { constructor() {} }',
+        'export class Client { private constructor() {} static create() { return new Client(); } }'
+      );
+
+      expect(result.issues).toEqual(['Class `Client`: Constructor visibility changed from public to private']);
+    });
+
+    it('should compare property types and accessors', () => {
+      const result = analyze(
+        `export class User {
+          id: string = '';
+          get name(): string { return ''; }
+          get email(): string { return ''; }
+          set email(value: string) {}
+          get role(): string { return ''; }
+        }`,
+        `export class User {
+          id: number = 0;
+          get email(): string { return ''; }
+          role: string = '';
+        }`
+      );
+
+      expect(result.issues).toEqual([
+        'Class `User`: Property `id` type changed from `string` to `number`',
+        'Class `User`: Getter `name` was removed',
+        'Class `User`: Getter `email` is now readonly',
+      ]);
+      expect(result.scores.map(s => s.subject)).toEqual(['User.id', 'User.name', 'User.email']);
+    });
+  });
+
+  describe('Enums', () => {
+    it('should flag removed members and renumbered values', () => {
+      const result = analyze(
+        'export enum Status { Draft, Review, Published }',
+        'export enum Status { Draft, Published }'
+      );
+
+      expect(result.issues).toEqual([
+        'Enum `Status`: Member `Review` was removed',
+        'Enum `Status`: Member `Published` value changed from `2` to `1`',
+      ]);
+      expect(result.scores.map(s => s.factor)).toEqual([
+        RiskFactorType.EnumMemberRemoved,
+        RiskFactorType.EnumValueChanged,
+      ]);
+      expect(result.fileScore).toBe(18);
+    });
+
+    it('should flag changed string initializers and const enum switches', () => {
+      const result = analyze(
+        "export enum Risk { Props = 'PROPS', Tests = 'TESTS' }",
+        "export const enum Risk { Props = 'PROPS_CHANGED', Tests = 'TESTS' }"
+      );
+
+      expect(result.issues).toEqual([
+        'Enum `Risk`: Changed from `enum` to `const enum`',
+        'Enum `Risk`: Member `Props` value changed from `"PROPS"` to `"PROPS_CHANGED"`',
+      ]);
+      expect(result.scores[0].factor).toBe(RiskFactorType.EnumConstChanged);
+    });
+  });
+
+  describe('Const-bound Functions', () => {
+    it('should compare exported arrow functions and function expressions', () => {
+      const result = analyze(
+        'export const useThing = (id: string) => id;\nexport const handler = async function (event: string) {};',
+        'export const useThing = (id: string, opts: object) => id;\nexport const handler = async function () {};'
+      );
+
+      expect(result.issues).toContain('Function `useThing`: Added required parameter `opts`');
+      expect(result.issues).toContain('Function `handler`: Removed parameter `event`');
+    });
+
+    it('should see through wrappers around React components', () => {
+      const result = analyze(
+        'export const Card = memo(({ title }: { title: string }) => <div>{title}</div>);',
+        'export const Card = memo(({ title }: { title: string }, ref: unknown) => <div>{title}</div>);',
+        'src/Card.tsx'
+      );
+
+      expect(result.changedExports).toContain('Card');
+      expect(result.issues).toEqual(['Component `Card`: Added required parameter `ref`']);
+    });
+
+    it('should only unwrap memo and forwardRef', () => {
+      const wrapped = analyze(
+        'export const Card = React.memo(React.forwardRef((props: {}, ref: unknown) => null));',
+        'export const Card = React.memo(React.forwardRef((props: {}) => null));'
+      );
+      expect(wrapped.issues).toEqual(['Function `Card`: Removed parameter `ref`']);
+
+      const factory = analyze(
+        'export const store = createStore((state: string) => state);',
+        'export const store = createStore(() => { throw new Error("unused"); });'
+      );
+      expect(factory.issues).toEqual([]);
+    });
+
+    it('should compare a function declaration refactored into an arrow function', () => {
+      const result = analyze(
+        'export function load(id: string) {}',
+        'export const load = () => {};'
+      );
+
+      expect(result.issues).toEqual(['Function `load`: Removed parameter `id`']);
+    });
+  });
+
+  describe('Type Direction', () => {
+    const factorFor = (result: ReturnType<typeof analyze>, text: string) =>
+      result.scores.find(s => s.explanation.includes(text))?.factor;
+
+    it('should treat parameter narrowing and return widening as breaking', () => {
+      const result = analyze(
+        'export function parse(input: string | number): string { return ""; }',
+        'export function parse(input: string): string | number { return 0; }'
+      );
+
+      expect(factorFor(result, 'Parameter 1 (`input`) type narrowed')).toBe(RiskFactorType.TypeNarrowing);
+      expect(factorFor(result, 'Return type widened')).toBe(RiskFactorType.ReturnTypeChanged);
+    });
+
+    it('should treat parameter widening and return narrowing as safe', () => {
+      const result = analyze(
+        'export function parse(input: string): string | number { return 0; }',
+        'export function parse(input: string | number): string { return ""; }'
+      );
+
+      expect(factorFor(result, 'Parameter 1 (`input`) type widened')).toBe(RiskFactorType.TypeWidening);
+      expect(factorFor(result, 'Return type narrowed')).toBe(RiskFactorType.TypeWidening);
+      expect(result.fileScore).toBe(4);
+    });
+
+    it('should flag incompatible type swaps', () => {
+      const result = analyze(
+        'export const toId = (value: string): string => value;',
+        'export const toId = (value: number): number => value;'
+      );
+
+      expect(factorFor(result, 'Parameter 1 (`value`) type changed')).toBe(RiskFactorType.TypeNarrowing);
+      expect(factorFor(result, 'Return type changed')).toBe(RiskFactorType.ReturnTypeChanged);
+    });
+
+    it('should classify object types by their properties', () => {
+      const breaking = analyze(
+        'export function load(user: { id: string }): { id: string; name: string } { return { id: "", name: "" }; }',
+        'export function load(user: { id: string; name: string }): { id: string } { return { id: "" }; }'
+      );
+
+      expect(factorFor(breaking, 'Parameter 1 (`user`) type narrowed')).toBe(RiskFactorType.TypeNarrowing);
+      expect(factorFor(breaking, 'Return type widened')).toBe(RiskFactorType.ReturnTypeChanged);
+
+      const safe = analyze(
+        'export function load(user: { id: string; name: string }): { id: string } { return { id: "" }; }',
+        'export function load(user: { id: string }): { id: string; name: string } { return { id: "", name: "" }; }'
+      );
+
+      expect(factorFor(safe, 'Parameter 1 (`user`) type widened')).toBe(RiskFactorType.TypeWidening);
+      expect(factorFor(safe, 'Return type narrowed')).toBe(RiskFactorType.TypeWidening);
+      expect(safe.fileScore).toBe(4);
+    });
+
+    it('should flag object properties that change to an unrelated type', () => {
+      const result = analyze(
+        'export function load(user: { id: string }) {}',
+        'export function load(user: { id: number }) {}'
+      );
+
+      expect(result.issues).toEqual(['Function `load`: Parameter 1 (`user`) type changed from `{ id: string; }` to `{ id: number; }`']);
+    });
+
+    it('should compare the type arguments of generic types', () => {
+      const result = analyze(
+        `interface Box<T> { value: T }
+        export async function load(): Promise<string> { return ""; }
+        export function wrap(box: Box<string>) {}
+        export function index(map: Record<string, number>) {}`,
+        `interface Box<T> { value: T }
+        export async function load(): Promise<number> { return 0; }
+        export function wrap(box: Box<number>) {}
+        export function index(map: Record<string, string>) {}`
+      );
+
+      expect(result.issues).toEqual([
+        'Function `load`: Return type changed from `Promise<string>` to `Promise<number>`',
+        'Function `wrap`: Parameter 1 (`box`) type changed from `Box<string>` to `Box<number>`',
+        'Function `index`: Parameter 1 (`map`) type changed from `Record<string, number>` to `Record<string, string>`',
+      ]);
+
+      const widened = analyze(
+        'export async function load(): Promise<string> { return ""; }',
+        'export async function load(): Promise<string | number> { return 0; }'
+      );
+      expect(factorFor(widened, 'Return type widened')).toBe(RiskFactorType.ReturnTypeChanged);
+    });
+
+    it('should compare index signatures', () => {
+      const result = analyze(
+        'export function tally(counts: { [key: string]: string }) {}',
+        'export function tally(counts: { [key: string]: number }) {}'
+      );
+
+      expect(factorFor(result, 'Parameter 1 (`counts`) type changed')).toBe(RiskFactorType.TypeNarrowing);
+    });
+
+    it('should ignore import qualifiers when the same type is printed differently', () => {
+      // Exporting `Graph` makes the checker print it as `import("/src/example").Graph`
+      const result = analyze(
+        'interface Graph { nodes: string[] }\nexport async function build(): Promise<Graph> { return { nodes: [] }; }',
+        'export interface Graph { nodes: string[] }\nexport async function build(): Promise<Graph> { return { nodes: [] }; }'
+      );
+
+      expect(result.issues).toEqual(['Export `Graph` was added']);
+    });
+  });
+
+  describe('Parameter Shape', () => {
+    it('should distinguish required, optional and rest parameters being added', () => {
+      const result = analyze(
+        'export function log(message: string) {}\nexport function warn(message: string) {}\nexport function error(message: string) {}',
+        'export function log(message: string, level?: number) {}\nexport function warn(message: string, ...tags: string[]) {}\nexport function error(message: string, code: number) {}'
+      );
+
+      expect(result.scores.map(s => [s.explanation, s.factor])).toEqual([
+        ['Function `log`: Added optional parameter `level` (safe for callers)', RiskFactorType.TypeWidening],
+        ['Function `warn`: Added rest parameter `tags` (safe for callers)', RiskFactorType.TypeWidening],
+        ['Function `error`: Added required parameter `code`', RiskFactorType.TypeNarrowing],
+      ]);
+    });
+
+    it('should flag optional parameters becoming required and removed defaults', () => {
+      const result = analyze(
+        "export function fetchAll(limit?: number, retries = 3, timeout = 1000) {}",
+        "export function fetchAll(limit: number, retries: number, timeout?: number) {}"
+      );
+
+      expect(result.issues).toEqual([
+        'Function `fetchAll`: Parameter 1 (`limit`) is now required',
+        'Function `fetchAll`: Parameter 2 (`retries`) lost its default value `3` and is now required',
+        'Function `fetchAll`: Parameter 3 (`timeout`) lost its default value `1000`; omitting it now passes `undefined`',
+      ]);
+      expect(result.scores.every(s => s.factor === RiskFactorType.TypeNarrowing)).toBe(true);
+    });
+
+    it('should report parameters that become optional as safe', () => {
+      const result = analyze(
+        'export function greet(name: string) {}',
+        'export function greet(name = "friend") {}'
+      );
+
+      expect(result.issues).toEqual(['Function `greet`: Parameter 1 (`name`) is now optional (safe for callers)']);
+    });
+
+    it('should detect reordered parameters with and without type swaps', () => {
+      const result = analyze(
+        'export function move(id: string, index: number) {}\nexport function rename(from: string, to: string) {}',
+        'export function move(index: number, id: string) {}\nexport function rename(to: string, from: string) {}'
+      );
+
+      expect(result.issues).toEqual([
+        'Function `move`: Parameters reordered from `(id, index)` to `(index, id)`; positional types changed, so existing calls no longer type-check',
+        'Function `rename`: Parameters reordered from `(from, to)` to `(to, from)`; positional types are unchanged, so existing calls still compile but pass values to the wrong parameter',
+      ]);
+    });
+  });
+
+  describe('Overloads and Generics', () => {
+    it('should compare the full overload set', () => {
+      const result = analyze(
+        `export function find(id: string): string;
+        export function find(id: number): string;
+        export function find(id: any): string { return ''; }`,
+        `export function find(id: string): string;
+        export function find(ids: string[]): string[];
+        export function find(id: any): string | string[] { return ''; }`
+      );
+
+      expect(result.scores.map(s => [s.explanation, s.factor])).toEqual([
+        ['Function `find`: Overload `(id: number): string` was removed', RiskFactorType.TypeNarrowing],
+        ['Function `find`: Overload `(ids: string[]): string[]` was added (safe for callers)', RiskFactorType.TypeWidening],
+      ]);
+    });
+
+    it('should diff type parameters, constraints and defaults', () => {
+      const result = analyze(
+        'export function pick<T extends string, K = T, D = unknown>(value: T) {}',
+        "export function pick<T extends 'a' | 'b', K, E>(value: T) {}"
+      );
+
+      expect(result.issues).toEqual([
+        "Function `pick`: Type parameter `T` constraint tightened from `string` to `'a' | 'b'`",
+        'Function `pick`: Type parameter `K` lost its default `T`',
+        'Function `pick`: Type parameter `D` was removed',
+        'Function `pick`: Type parameter `E` was added',
+      ]);
+    });
+
+    it('should treat defaulted type parameters as safe additions', () => {
+      const result = analyze(
+        'export const wrap = (value: string) => value;',
+        'export const wrap = <T = string>(value: string) => value;'
+      );
+
+      expect(result.scores.map(s => s.factor)).toEqual([RiskFactorType.TypeWidening]);
+    });
+  });
+
+  describe('Interfaces', () => {
+    it('should compare property types and readonly modifiers', () => {
+      const result = analyze(
+        'export interface User { id: string; name: string | number; tags?: string; readonly createdAt: string; email: string }',
+        'export interface User { id: number; name: string; tags?: string | number; createdAt: string; readonly email: string }'
+      );
+
+      expect(result.scores.map(s => [s.explanation, s.factor])).toEqual([
+        ['Interface `User`: Prop `id` type changed from `string` to `number`', RiskFactorType.PropsChanged],
+        ['Interface `User`: Prop `name` type narrowed from `string | number` to `string`', RiskFactorType.TypeNarrowing],
+        ['Interface `User`: Prop `tags` type widened from `string` to `string | number`', RiskFactorType.TypeWidening],
+        ['Interface `User`: Prop `createdAt` is no longer readonly (safe for consumers)', RiskFactorType.TypeWidening],
+        ['Interface `User`: Prop `email` is now readonly', RiskFactorType.PropsChanged],
+      ]);
+    });
+
+    it('should compare method signatures, index signatures and extends clauses', () => {
+      const result = analyze(
+        `interface Base {}
+        interface Named {}
+        export interface Store extends Base {
+          [key: string]: unknown;
+          get(key: string): string;
+          clear(): void;
+        }`,
+        `interface Base {}
+        interface Named {}
+        export interface Store extends Named {
+          [index: number]: unknown;
+          get(key: string, fallback: string): string;
+        }`
+      );
+
+      expect(result.issues).toEqual([
+        'Interface `Store`: No longer extends `Base`',
+        'Interface `Store`: Now extends `Named`',
+        'Interface `Store`: Method `get`: Added required parameter `fallback`',
+        'Interface `Store`: Method `clear` was removed',
+        'Interface `Store`: Index signature `[key: string]: unknown` was removed',
+        'Interface `Store`: Index signature `[index: number]: unknown` was added',
+      ]);
+    });
+  });
+
+  describe('Dangerous Type Use', () => {
+    it('should report newly introduced any, casts and non-null assertions with line numbers', () => {
+      const result = analyze(
+        `const config = load();
+        export const port = config.port as number;`,
+        `const config = load();
+        export const port = config.port as number;
+        export function parse(raw: any) {
+          const user = raw as unknown as { id: string };
+          const mode = raw.mode as const;
+          return user.id!;
+        }`
+      );
+
+      const dangerous = result.scores.filter(s => s.factor === RiskFactorType.DangerousTypeUse);
+      expect(dangerous.map(s => s.explanation)).toEqual([
+        '`any` type at line 3: `raw: any`',
+        '`as unknown as` double cast at line 4: `raw as unknown as { id: string }`',
+        'Non-null assertion at line 6: `user.id!`',
+      ]);
+      expect(dangerous[0].subject).toBe('example.ts:3');
+    });
+
+    it('should not report uses that only moved', () => {
+      const result = analyze(
+        'export const a = (window as any).foo;\nexport const b = 1;',
+        'export const b = 1;\n\nexport const a = (window as any).foo;'
+      );
+
+      expect(result.scores.filter(s => s.factor === RiskFactorType.DangerousTypeUse)).toHaveLength(0);
+    });
+  });
+
+  describe('JSX Event Handlers', () => {
+    const oldForm = `export function Form({ onSave }: { onSave: () => void }) {
+      const reset = () => {};
+      return (
+        <form onSubmit={onSave}>
+          <button onClick={reset}>Reset</button>
+          <button onClick={onSave}>Save</button>
+          <input onChange={reset} />
+        </form>
+      );
+    }`;
+
+    it('should flag removed handlers, changed targets and inline lambdas', () => {
+      const result = analyze(
+        oldForm,
+        `export function Form({ onSave }: { onSave: () => void }) {
+          const reset = () => {};
+          return (
+            <form onSubmit={reset}>
+              <button onClick={() => reset()}>Reset</button>
+              <button>Save</button>
+              <input onChange={reset} />
+            </form>
+          );
+        }`,
+        'src/Form.tsx'
+      );
+
+      const jsx = result.scores.filter(s => s.factor === RiskFactorType.JSXEventChange);
+      expect(jsx.map(s => s.explanation)).toEqual([
+        'Component `Form`: `onSubmit` on `<form>` changed from `onSave` to `reset`',
+        'Component `Form`: `onClick` on `<button>` replaced `reset` with an inline lambda `() => reset()`',
+        'Component `Form`: `onClick` handler `onSave` was removed from `<button>`',
+      ]);
+      expect(jsx.every(s => s.subject === 'Form')).toBe(true);
+    });
+
+    it('should not shift handlers when an element is inserted before them', () => {
+      const result = analyze(
+        oldForm,
+        oldForm.replace('<button onClick={reset}>Reset</button>', '<button>Cancel</button>\n          <button onClick={reset}>Reset</button>'),
+        'src/Form.tsx'
+      );
+
+      expect(result.scores.filter(s => s.factor === RiskFactorType.JSXEventChange)).toHaveLength(0);
+    });
+
+    it('should match elements by a stable attribute before their position', () => {
+      const result = analyze(
+        'export function List() { return <ul><li key="a" onClick={openA} /><li key="b" onClick={openB} /></ul>; }',
+        'export function List() { return <ul><li key="b" onClick={openB2} /><li key="a" onClick={openA} /></ul>; }',
+        'src/List.tsx'
+      );
+
+      expect(result.issues).toEqual(['Component `List`: `onClick` on `<li>` changed from `openB` to `openB2`']);
+    });
+
+    it('should only run for JSX files', () => {
+      const result = analyze(oldForm, oldForm.replace('onSubmit={onSave}', ''), 'src/Form.ts');
+
+      expect(result.scores.filter(s => s.factor === RiskFactorType.JSXEventChange)).toHaveLength(0);
+    });
+  });
+
+  describe('React Component Props', () => {
+    it('should diff inline props of function components', () => {
+      const result = analyze(
+        'export function Card({ title, onClose }: { title: string; onClose?: () => void }) { return <div>{title}</div>; }',
+        'export function Card({ title, onClose }: { title: string | number; onClose: () => void; footer: string }) { return <div>{title}</div>; }',
+        'src/Card.tsx'
+      );
+
+      expect(result.issues).toEqual([
+        'Component `Card`: Prop `title` type widened from `string` to `string | number`',
+        'Component `Card`: Prop `onClose` is now required',
+        'Component `Card`: Prop `footer` was added',
+      ]);
+      expect(result.scores.every(s => s.factor === RiskFactorType.PropsChanged && s.subject === 'Card')).toBe(true);
+    });
+
+    it('should resolve aliased props and FC generics', () => {
+      const result = analyze(
+        `interface BadgeProps { label: string; tone?: string }
+        export const Badge = (props: BadgeProps) => <span>{props.label}</span>;
+        export const Chip: React.FC<{ text: string; icon: string }> = ({ text }) => null;`,
+        `interface BadgeProps { label: string }
+        export const Badge = (props: BadgeProps) => <span>{props.label}</span>;
+        export const Chip: React.FC<{ text: string }> = ({ text }) => null;`,
+        'src/Badge.tsx'
+      );
+
+      expect(result.issues).toEqual([
+        'Component `Badge`: Prop `tone` was removed',
+        'Component `Chip`: Prop `icon` was removed',
+      ]);
+    });
+
+    it('should leave capitalized functions that take no props to the function comparison', () => {
+      const result = analyze(
+        'export function Format(a: string): string { return a; }',
+        'export function Format(a: number): number { return a; }',
+        'src/Format.tsx'
+      );
+
+      expect(result.issues).toEqual([
+        'Function `Format`: Return type changed from `string` to `number`',
+        'Function `Format`: Parameter 1 (`a`) type changed from `string` to `number`',
+      ]);
+    });
+
+    it('should leave lowercase helpers to the function comparison', () => {
+      const result = analyze(
+        'export const format = (value: string) => value;',
+        'export const format = (value: string, locale: string) => value;',
+        'src/format.tsx'
+      );
+
+      expect(result.issues).toEqual(['Function `format`: Added required parameter `locale`']);
+    });
+  });
+
+  describe('Hook Dependencies', () => {
+    it('should flag added, removed, emptied and dropped dependency arrays', () => {
+      const result = analyze(
+        `export function Profile({ id, token }: { id: string; token: string }) {
+          useEffect(() => {}, [id]);
+          useEffect(() => {}, [id, token]);
+          const user = useMemo(() => load(id), [id]);
+          const save = React.useCallback(() => {}, [token]);
+          return <div />;
+        }`,
+        `export function Profile({ id, token }: { id: string; token: string }) {
+          useEffect(() => {}, [id, token]);
+          useEffect(() => {}, []);
+          const user = useMemo(() => load(id));
+          const save = React.useCallback(() => {}, [token]);
+          return <div />;
+        }`,
+        'src/Profile.tsx'
+      );
+
+      const hooks = result.scores.filter(s => s.factor === RiskFactorType.HookDependencyChange);
+      expect(hooks.map(s => s.explanation)).toEqual([
+        'Component `Profile`: `useEffect` at line 2 dependencies changed: added `token`',
+        'Component `Profile`: `useEffect` at line 3 dependency array was emptied (was `[id, token]`); it now runs only on mount',
+        'Component `Profile`: `useMemo` at line 4 lost its dependency array `[id]`; it now runs on every render',
+      ]);
+      expect(hooks.every(s => s.subject === 'Profile')).toBe(true);
+    });
+  });
+
+  describe('Internal Helpers', () => {
+    it('should attribute a changed helper to every export that calls it, directly or transitively', () => {
+      const helpers = (body: string) => `
+        function normalize(value: string) { return ${body}; }
+        const format = (value: string) => normalize(value).padStart(2);
+        export function parse(value: string) { return normalize(value); }
+        export const render = (value: string) => format(value);
+        export class Printer { print(value: string) { return [value].map(normalize); } }
+        export function unrelated() { const normalize = (v: string) => v; return normalize('x'); }
+      `;
+      const result = analyze(helpers('value.trim()'), helpers('value.trim().toLowerCase()'));
+
+      const internal = result.scores.filter(s => s.factor === RiskFactorType.InternalHelperChanged);
+      expect(internal.map(s => s.explanation)).toEqual([
+        'Export `parse`: Calls internal helper `normalize`, which changed',
+        'Export `render`: Calls internal helper `normalize` (via `format`), which changed',
+        'Export `Printer`: Calls internal helper `normalize`, which changed',
+      ]);
+      expect(result.changedExports).toEqual(['parse', 'render', 'Printer']);
+      expect(result.fileScore).toBe(12);
+    });
+
+    it('should ignore helpers whose text did not change', () => {
+      const code = 'function normalize(value: string) { return value.trim(); }\nexport const parse = (value: string) => normalize(value);';
+      const result = analyze(code, code);
+
+      expect(result.scores).toEqual([]);
+    });
+
+    it('should ignore helpers that were only reformatted', () => {
+      const result = analyze(
+        'function normalize(value: string) { return value.trim(); }\nexport const parse = (value: string) => normalize(value);\nexport const id = 1;',
+        "function normalize(value: string) {\n  // trim first\n  return (value.trim());\n}\nexport const parse = (value: string) => normalize(value);\nexport const id = '1';"
+      );
+
+      expect(result.scores.filter(s => s.factor === RiskFactorType.InternalHelperChanged)).toEqual([]);
+    });
+  });
+
+  describe('Async and Generators', () => {
+    it('should flag functions becoming async or returning a Promise', () => {
+      const result = analyze(
+        'export function load(): string { return ""; }\nexport const save = (): number => 1;',
+        'export async function load(): Promise<string> { return ""; }\nexport const save = (): Promise<number> => Promise.resolve(1);'
+      );
+
+      expect(result.issues).toEqual([
+        'Function `load`: Changed from a synchronous function to an async function; it now returns `Promise<string>` instead of `string`',
+        'Function `save`: Changed from a synchronous function to an async function; it now returns `Promise<number>` instead of `number`',
+      ]);
+      expect(result.scores.every(s => s.factor === RiskFactorType.AsyncChange)).toBe(true);
+    });
+
+    it('should flag losing async and switching to generators', () => {
+      const result = analyze(
+        'export async function load() { return 1; }\nexport function ids(): number[] { return [1]; }',
+        'export function load() { return 1; }\nexport function* ids() { yield 1; }'
+      );
+
+      expect(result.issues).toHaveLength(2);
+      expect(result.issues[0]).toBe('Function `load`: Changed from an async function to a synchronous function; it now returns `number` instead of `Promise<number>`');
+      // The in-memory project's default lib decides how the Generator type prints
+      expect(result.issues[1]).toMatch(/^Function `ids`: Changed from a synchronous function to a generator; it now returns `.+` instead of `number\[\]`$/);
+    });
+
+    it('should not flag adding async to a function that already returned a Promise', () => {
+      const result = analyze(
+        'export function load(): Promise<number> { return Promise.resolve(1); }',
+        'export async function load(): Promise<number> { return 1; }'
+      );
+
+      expect(result.scores).toEqual([]);
+    });
+  });
+
+  describe('Thrown Errors', () => {
+    it('should flag new throws and rejections with line numbers', () => {
+      const result = analyze(
+        `export function parse(value: string) {
+          if (!value) throw new Error('empty');
+          return value;
+        }
+        export async function load(id: string) {
+          return id;
+        }
+        export const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));`,
+        `export function parse(value: string) {
+          if (value.length > 10) throw new RangeError('too long');
+          if (!value) throw new Error('empty');
+          try {
+            JSON.parse(value);
+            throw new Error('caught');
+          } catch {}
+          return value;
+        }
+        export async function load(id: string) {
+          if (!id) throw new Error('missing id');
+          return id;
+        }
+        export const wait = (ms: number) => new Promise((resolve, reject) => {
+          if (ms < 0) reject(new Error('negative'));
+          setTimeout(resolve, ms);
+        });`
+      );
+
+      expect(result.issues).toEqual([
+        "Function `parse`: New throw at line 2: `throw new RangeError('too long');`",
+        "Function `load`: New rejection at line 11: `throw new Error('missing id');`",
+        "Function `wait`: New rejection at line 15: `reject(new Error('negative'))`",
+      ]);
+      expect(result.scores.every(s => s.factor === RiskFactorType.NewThrowPath)).toBe(true);
+    });
+
+    it('should not flag throws that only moved', () => {
+      const result = analyze(
+        "export function parse(value: string) {\n  if (!value) throw new Error('empty');\n  return value;\n}",
+        "export function parse(value: string) {\n  const trimmed = value;\n\n  if (!trimmed) {\n    throw new Error('empty');\n  }\n  return trimmed;\n}"
+      );
+
+      expect(result.scores.filter(s => s.factor === RiskFactorType.NewThrowPath)).toEqual([]);
+    });
+
+    it('should only follow nested functions that run immediately', () => {
+      const result = analyze(
+        `export function createParser() {
+          return (value: string) => value;
+        }
+        export async function schedule() {
+          return 1;
+        }`,
+        `export function createParser() {
+          return (value: string) => {
+            if (!value) throw new Error('empty');
+            return value;
+          };
+        }
+        export async function schedule() {
+          try {
+            setTimeout(() => { throw new Error('later'); });
+          } catch {}
+          return new Promise<void>(() => { throw new Error('sync executor'); });
+        }`
+      );
+
+      expect(result.issues).toEqual([
+        "Function `schedule`: New rejection at line 11: `throw new Error('sync executor');`",
+      ]);
+    });
+  });
+
+  describe('Top-level Side Effects', () => {
+    it('should flag new module-level calls, assignments and updates', () => {
+      const result = analyze(
+        "'use strict';\nimport { init } from './sentry';\nexport const VERSION = '1';",
+        "'use strict';\nimport { init } from './sentry';\nexport const VERSION = '1';\ninit();\nwindow.name = VERSION;\nlet count = 0;\ncount++;\nconst ready = VERSION === '1';"
+      );
+
+      expect(result.issues).toEqual([
+        'Side effect: Top-level call at line 4: `init();`',
+        'Side effect: Top-level assignment at line 5: `window.name = VERSION;`',
+        'Side effect: Top-level update at line 7: `count++;`',
+      ]);
+      expect(result.scores.every(s => s.factor === RiskFactorType.TopLevelSideEffect && s.points === 3)).toBe(true);
+      expect(result.fileScore).toBe(9);
+    });
+
+    it('should scale points by the blast radius from the usage graph', () => {
+      const oldProject = new Project({ useInMemoryFileSystem: true });
+      const project = new Project({ useInMemoryFileSystem: true });
+      const oldSourceFile = oldProject.createSourceFile('/repo/src/setup.ts', 'export const ready = true;');
+      const newSourceFile = project.createSourceFile('/repo/src/setup.ts', 'export const ready = true;\nwindow.addEventListener("error", () => {});');
+      const node = (importedBy: string[] = []) =>
+        ({ exports: [], imports: [], unresolvedImports: [], importedBy, reExportedBy: [], subsystem: [], isPartial: false });
+      const graph = {
+        '/repo/src/setup.ts': node(['/repo/src/a.ts', '/repo/src/b.ts']),
+        '/repo/src/a.ts': node(['/repo/src/c.ts']),
+      };
+
+      const result = analyzeFile(newSourceFile, oldSourceFile, project, getDefaultConfig(), graph);
+
+      expect(result.scores).toEqual([{
+        subject: 'setup.ts:2',
+        factor: RiskFactorType.TopLevelSideEffect,
+        points: 9,
+        explanation: 'Top-level call at line 2: `window.addEventListener("error", () => {});` (runs on load in 3 dependent files)',
+      }]);
+    });
+  });
+
+  describe('Export Renames', () => {
+    it('should report a near-identical removed and added export as a rename', () => {
+      const result = analyze(
+        'export function getUser(id: string) {\n  return fetch(`/users/${id}`);\n}\nexport const LIMIT = 10;',
+        'export function fetchUser(id: string) {\n  return fetch(`/users/${id}`); // cached upstream\n}\nexport const MAX = 99;'
+      );
+
+      expect(result.issues).toEqual([
+        'Export `getUser` was renamed to `fetchUser`',
+        'Export `LIMIT` was removed',
+        'Export `MAX` was added',
+      ]);
+      expect(result.scores.map(s => s.factor)).toEqual([
+        RiskFactorType.ExportRenamed,
+        RiskFactorType.ExportRemoved,
+        RiskFactorType.ExportAdded,
+      ]);
+      expect(result.changedExports).toEqual(['getUser', 'fetchUser', 'LIMIT', 'MAX']);
+    });
+
+    it('should not pair exports of different kinds', () => {
+      const result = analyze(
+        'export function getUser() { return 1; }',
+        'export const fetchUser = () => { return 1; };'
+      );
+
+      expect(result.scores.map(s => s.factor)).toEqual([RiskFactorType.ExportRemoved, RiskFactorType.ExportAdded]);
+    });
+
+    it('should list importers that still reference the old name', () => {
+      const oldProject = new Project({ useInMemoryFileSystem: true });
+      const project = new Project({ useInMemoryFileSystem: true });
+      const oldSourceFile = oldProject.createSourceFile('/repo/src/users.ts', 'export const getUser = (id: string) => id;');
+      const newSourceFile = project.createSourceFile('/repo/src/users.ts', 'export const fetchUser = (id: string) => id;');
+      const node = (imports: { from: string; symbols: string[] }[], importedBy: string[] = []) =>
+        ({ exports: [], imports, unresolvedImports: [], importedBy, reExportedBy: [], subsystem: [], isPartial: false });
+      const graph = {
+        '/repo/src/users.ts': node([], ['/repo/src/a.ts', '/repo/src/b.ts']),
+        '/repo/src/a.ts': node([{ from: '/repo/src/users.ts', symbols: ['getUser'] }]),
+        '/repo/src/b.ts': node([{ from: '/repo/src/users.ts', symbols: ['fetchUser'] }]),
+      };
+
+      const result = analyzeFile(newSourceFile, oldSourceFile, project, getDefaultConfig(), graph);
+
+      expect(result.scores[0].explanation).toBe(
+        `Export \`getUser\` was renamed to \`fetchUser\`; still imported as \`getUser\` by ${path.relative(process.cwd(), '/repo/src/a.ts')}`
+      );
+      expect(result.scores.map(s => s.factor)).toEqual([RiskFactorType.ExportRenamed, RiskFactorType.DanglingImport]);
+      expect(result.scores[1].explanation).toBe(
+        `Export \`getUser\` was renamed to \`fetchUser\` but is still imported under the old name by \`${path.relative(process.cwd(), '/repo/src/a.ts')}\``
+      );
+      expect(result.fileScore).toBe(23);
+    });
+  });
+
+  describe('Dangling Imports', () => {
+    it('should escalate removed exports that are still imported', () => {
+      const oldProject = new Project({ useInMemoryFileSystem: true });
+      const project = new Project({ useInMemoryFileSystem: true });
+      const oldSourceFile = oldProject.createSourceFile('/repo/src/users.ts', 'export const getUser = 1;\nexport const LIMIT = 10;');
+      const newSourceFile = project.createSourceFile('/repo/src/users.ts', 'export const LIMIT = 10;');
+      const graph = {
+        '/repo/src/users.ts': { exports: [], imports: [], unresolvedImports: [], importedBy: ['/repo/src/a.ts'], reExportedBy: [], subsystem: [], isPartial: false },
+        '/repo/src/a.ts': { exports: [], imports: [{ from: '/repo/src/users.ts', symbols: ['getUser', 'LIMIT'] }], unresolvedImports: [], importedBy: [], reExportedBy: [], subsystem: [], isPartial: false },
+      };
+
+      const result = analyzeFile(newSourceFile, oldSourceFile, project, getDefaultConfig(), graph);
+
+      expect(result.scores.map(s => s.factor)).toEqual([RiskFactorType.ExportRemoved, RiskFactorType.DanglingImport]);
+      expect(result.scores[1].explanation).toBe(
+        `Export \`getUser\` was removed but is still imported by \`${path.relative(process.cwd(), '/repo/src/a.ts')}\``
+      );
+      expect(result.fileScore).toBe(25);
+    });
+  });
+
+  describe('Deprecations', () => {
+    it('should score removing a deprecated export lower than a regular removal', () => {
+      const result = analyze(
+        "/**\n * @deprecated Use `fetchUser` instead.\n */\nexport const getUser = 1;\nexport const LIMIT = 10;",
+        ''
+      );
+
+      expect(result.issues).toEqual([
+        'Export `getUser` was removed after being deprecated: Use `fetchUser` instead.',
+        'Export `LIMIT` was removed',
+      ]);
+      expect(result.scores.map(s => s.factor)).toEqual([RiskFactorType.DeprecatedExportRemoved, RiskFactorType.ExportRemoved]);
+      expect(result.fileScore).toBe(13);
+    });
+
+    it('should report exports that become deprecated', () => {
+      const result = analyze(
+        'export function getUser() {}\n/** @deprecated */\nexport function legacy() {}',
+        '/** @deprecated Use `fetchUser`. */\nexport function getUser() {}\n/** @deprecated */\nexport function legacy() {}'
+      );
+
+      expect(result.issues).toEqual(['Export `getUser` was deprecated: Use `fetchUser`.']);
+      expect(result.scores.map(s => s.factor)).toEqual([RiskFactorType.ExportDeprecated]);
+      expect(result.changedExports).toEqual(['getUser']);
+    });
+  });
+});
+
+describe('analyzeBreakingChanges', () => {
+  describe('Cosmetic Changes', () => {
+    const run = (oldCode: string, newCode: string, filePath = 'src/format.ts') =>
+      analyzeBreakingChanges(
+        [{ path: filePath, status: 'M' }],
+        new Project({ useInMemoryFileSystem: true }),
+        { getOldCode: () => oldCode, getNewCode: () => newCode, verbose: false, includeTests: true },
+        getDefaultConfig()
+      );
+
+    it('should score reformatted and re-commented files as zero', () => {
+      const result = run(
+        `// Formats a name\nexport function format(name: string, suffix = '') { return name + suffix }\nconst parts = ['a', 'b',]`,
+        `/** Formats a name for display */\nexport function format(\n  name: string,\n  suffix = "",\n) {\n  return name + suffix;\n}\nconst parts = ["a", "b"];\n`
+      );
+
+      expect(result.skippedFiles.cosmetic).toEqual(['src/format.ts']);
+      expect(result.scores).toEqual({});
+      expect(result.totalScore).toBe(0);
+    });
+
+    it('should ignore JSX whitespace reflow but not changed text', () => {
+      const oldCode = 'export const Title = () => <h1>Hello   world</h1>;';
+      const reflowed = 'export const Title = () => (\n  <h1>\n    Hello world\n  </h1>\n);';
+
+      expect(run(oldCode, reflowed, 'src/Title.tsx').skippedFiles.cosmetic).toEqual(['src/Title.tsx']);
+      expect(run(oldCode, 'export const Title = () => <h1>Hello there</h1>;', 'src/Title.tsx').skippedFiles.cosmetic).toEqual([]);
+    });
+
+    it('should not treat operator or declaration keyword changes as cosmetic', () => {
+      expect(run('export let x = -1;', 'export let x = +1;').skippedFiles.cosmetic).toEqual([]);
+      expect(run('export let x = 1;', 'export const x = 1;').skippedFiles.cosmetic).toEqual([]);
+      expect(run("import { A } from './a';", "import type { A } from './a';").skippedFiles.cosmetic).toEqual([]);
+    });
+
+    it('should not treat a new @deprecated tag as cosmetic', () => {
+      expect(run('/** Loads a user */\nexport const getUser = 1;', '/**\n * Loads a user\n * @deprecated\n */\nexport const getUser = 1;').skippedFiles.cosmetic).toEqual([]);
+    });
+  });
+
+  describe('Removed Files', () => {
+    it('should list importers that still point at a deleted file', () => {
+      const graph = {
+        [path.resolve('src/a.ts')]: {
+          exports: [], imports: [], importedBy: [], reExportedBy: [], subsystem: [], isPartial: true,
+          unresolvedImports: [{ specifier: './legacy.js', symbols: ['legacy'] }],
+        },
+      };
+
+      const result = analyzeBreakingChanges(
+        [{ path: 'src/legacy.ts', status: 'D' }],
+        new Project({ useInMemoryFileSystem: true }),
+        { getOldCode: () => 'export const legacy = 1;', getNewCode: () => 'Skipped', verbose: false, includeTests: false, usageGraph: graph },
+        getDefaultConfig()
+      );
+
+      expect(result.scores['src/legacy.ts'].scores.map((s: { factor: RiskFactorType }) => s.factor)).toEqual([
+        RiskFactorType.FileRemoved,
+        RiskFactorType.DanglingImport,
+      ]);
+      expect(result.issues).toContain('Dangling import: File `src/legacy.ts` was removed but is still imported by `src/a.ts`');
+      expect(result.totalScore).toBe(25);
+    });
+  });
+
+  describe('Renamed Files', () => {
+    it('should report which importers were updated and which still use the old path', () => {
+      const node = (overrides: object) =>
+        ({ exports: [], imports: [], unresolvedImports: [], importedBy: [], reExportedBy: [], subsystem: [], isPartial: false, ...overrides });
+      const graph = {
+        [path.resolve('src/users/api.ts')]: node({ importedBy: [path.resolve('src/a.ts')] }),
+        [path.resolve('src/a.ts')]: node({ imports: [{ from: path.resolve('src/users/api.ts'), symbols: ['getUser'] }] }),
+        [path.resolve('src/b.ts')]: node({ unresolvedImports: [{ specifier: './api', symbols: ['getUser'] }] }),
+        [path.resolve('src/pages/c.ts')]: node({ unresolvedImports: [{ specifier: '@/api.js', symbols: ['getUser'] }] }),
+      };
+      const project = new Project({
+        useInMemoryFileSystem: true,
+        compilerOptions: { baseUrl: process.cwd(), paths: { '@/*': ['src/*'] } },
+      });
+
+      const result = analyzeBreakingChanges(
+        [{ path: 'src/users/api.ts', status: 'R', renamedFrom: 'src/api.ts' }, { path: 'src/a.ts', status: 'M' }],
+        project,
+        {
+          getOldCode: (file) => file === 'src/api.ts' || file === 'src/users/api.ts' ? 'export const getUser = 1;' : '',
+          getNewCode: (file) => file === 'src/users/api.ts' ? 'export const getUser = 1;' : '',
+          verbose: false,
+          includeTests: false,
+          usageGraph: graph,
+        },
+        getDefaultConfig()
+      );
+
+      expect(result.scores['src/users/api.ts'].scores.map((s: { explanation: string }) => s.explanation)).toEqual([
+        'File `src/users/api.ts` was renamed from `src/api.ts`; importers updated in this change: `src/a.ts`',
+        'File `src/users/api.ts` was renamed from `src/api.ts` but is still imported under the old path by `src/b.ts`, `src/pages/c.ts`',
+      ]);
+    });
+  });
+
+  describe('Base Project', () => {
+    it('should resolve imported types in the old version through the base-ref project', () => {
+      const oldApi = "import { Role } from './roles';\nexport function setRole(role: Role) {}";
+      const newApi = "export function setRole(role: 'admin') {}";
+      const run = (baseProject?: Project) => analyzeBreakingChanges(
+        [{ path: 'src/api.ts', status: 'M' }],
+        new Project({ useInMemoryFileSystem: true }),
+        { getOldCode: () => oldApi, getNewCode: () => newApi, verbose: false, includeTests: false, baseProject },
+        getDefaultConfig()
+      );
+
+      // On its own the old `Role` is `any`, so nothing looks narrowed
+      expect(run().scores).toEqual({});
+
+      const baseProject = new Project({ useInMemoryFileSystem: true });
+      baseProject.createSourceFile(path.resolve('src/roles.ts'), "export type Role = 'admin' | 'user';");
+      baseProject.createSourceFile(path.resolve('src/api.ts'), oldApi);
+
+      const scores = run(baseProject).scores['src/api.ts'].scores;
+      expect(scores.map((s: { factor: RiskFactorType }) => s.factor)).toEqual([RiskFactorType.TypeNarrowing]);
+      expect(scores[0].explanation).toMatch(/^Function `setRole`: Parameter 1 \(`role`\) type narrowed from `.*Role` to `"admin"`$/);
+    });
+
+    it('should classify imported object types resolved through the base-ref project', () => {
+      const oldApi = "import { User } from './user';\nexport function getUser(): User { return { id: '', name: '' }; }";
+      const newApi = "export function getUser(): { id: string } { return { id: '' }; }";
+      const baseProject = new Project({ useInMemoryFileSystem: true });
+      baseProject.createSourceFile(path.resolve('src/user.ts'), 'export interface User { id: string; name: string }');
+      baseProject.createSourceFile(path.resolve('src/api.ts'), oldApi);
+
+      const result = analyzeBreakingChanges(
+        [{ path: 'src/api.ts', status: 'M' }],
+        new Project({ useInMemoryFileSystem: true }),
+        { getOldCode: () => oldApi, getNewCode: () => newApi, verbose: false, includeTests: false, baseProject },
+        getDefaultConfig()
+      );
+
+      const scores = result.scores['src/api.ts'].scores;
+      expect(scores.map((s: { factor: RiskFactorType }) => s.factor)).toEqual([RiskFactorType.ReturnTypeChanged]);
+      expect(scores[0].explanation).toMatch(/^Function `getUser`: Return type widened from `.*User` to `\{ id: string; \}`$/);
+    });
+  });
+});
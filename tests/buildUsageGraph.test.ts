@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { buildUsageGraph, calculateBlastRadius, calculateGraphScore, findImportersOfPath, findImportersOfSymbol, getReExportChains } from '../src/lib/buildUsageGraph.js';
+import { RiskFactorType } from '../src/lib/constants.js';
+
+describe('Usage Graph', () => {
+  const files = {
+    '/repo/src/lib/foo.ts': 'export const foo = 1;',
+    '/repo/src/lib/index.ts': "export * from './foo';",
+    '/repo/src/index.ts': "export { foo } from './lib/index';",
+    '/repo/src/components/a.ts': "import { foo } from '../index';",
+    '/repo/src/pages/b.ts': "import { foo } from '../lib/index';",
+  };
+
+  const build = async () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+    for (const [filePath, code] of Object.entries(files)) {
+      project.createSourceFile(filePath, code);
+    }
+    return buildUsageGraph(project, Object.keys(files));
+  };
+
+  describe('Re-exports', () => {
+    it('should record barrels as dependents of the origin file', async () => {
+      const graph = await build();
+
+      expect(graph['/repo/src/lib/foo.ts'].importedBy).toEqual(['/repo/src/lib/index.ts']);
+      expect(graph['/repo/src/lib/foo.ts'].reExportedBy).toEqual(['/repo/src/lib/index.ts']);
+      expect(graph['/repo/src/lib/index.ts'].imports).toEqual([{ from: '/repo/src/lib/foo.ts', symbols: ['*'] }]);
+      expect(graph['/repo/src/index.ts'].imports).toEqual([{ from: '/repo/src/lib/index.ts', symbols: ['foo'] }]);
+    });
+
+    it('should count importers of the barrel toward the origin blast radius', async () => {
+      const graph = await build();
+
+      // lib/index.ts, src/index.ts, pages/b.ts and components/a.ts
+      expect(calculateBlastRadius(graph, '/repo/src/lib/foo.ts')).toBe(4);
+    });
+
+    it('should show the re-export chain in the explanation', async () => {
+      const graph = await build();
+
+      expect(getReExportChains(graph, '/repo/src/lib/foo.ts')).toEqual([
+        ['/repo/src/lib/foo.ts', '/repo/src/lib/index.ts', '/repo/src/index.ts'],
+      ]);
+
+      const { graphScore } = calculateGraphScore(graph, ['/repo/src/lib/foo.ts'], { basePath: '/repo' });
+      const imported = graphScore.find(s => s.factor === RiskFactorType.ImportedInFiles);
+      expect(imported?.explanation).toBe('Imported by src/lib/index.ts (re-exported via src/lib/index.ts → src/index.ts)');
+    });
+
+    it('should find importers of a symbol through barrels', async () => {
+      const graph = await build();
+
+      expect(findImportersOfSymbol(graph, '/repo/src/lib/foo.ts', 'foo')).toEqual(['/repo/src/pages/b.ts', '/repo/src/components/a.ts']);
+      expect(findImportersOfSymbol(graph, '/repo/src/lib/foo.ts', 'bar')).toEqual([]);
+    });
+  });
+
+  describe('Unresolved Imports', () => {
+    it('should match importers of a deleted file by extensionless and .js specifiers', async () => {
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile('/repo/src/a.ts', "import { legacy } from './legacy';");
+      project.createSourceFile('/repo/src/nested/b.ts', "export * from '../legacy.js';");
+      project.createSourceFile('/repo/src/c.ts', "import { other } from './other';");
+      const graph = await buildUsageGraph(project, ['/repo/src/a.ts', '/repo/src/nested/b.ts', '/repo/src/c.ts']);
+
+      expect(graph['/repo/src/a.ts'].unresolvedImports).toEqual([{ specifier: './legacy', symbols: ['legacy'] }]);
+      expect(findImportersOfPath(graph, '/repo/src/legacy.ts')).toEqual(['/repo/src/a.ts', '/repo/src/nested/b.ts']);
+    });
+
+    it('should leave package imports out of the graph but flag unresolved path aliases', async () => {
+      const project = new Project({ useInMemoryFileSystem: true, compilerOptions: { baseUrl: '/repo', paths: { '@/*': ['src/*'] } } });
+      project.createSourceFile(
+        '/repo/src/a.ts',
+        "import path from 'path';\nimport chalk from 'chalk';\nexport * from 'ts-morph';\nimport { gone } from '@/gone';"
+      );
+      project.createSourceFile('/repo/src/b.ts', "import { Project } from 'ts-morph';");
+      const graph = await buildUsageGraph(project, ['/repo/src/a.ts', '/repo/src/b.ts']);
+
+      expect(graph['/repo/src/a.ts'].unresolvedImports).toEqual([{ specifier: '@/gone', symbols: ['gone'] }]);
+      expect(graph['/repo/src/a.ts'].imports).toEqual([]);
+      expect(graph['/repo/src/b.ts'].isPartial).toBe(false);
+      expect(Object.keys(graph)).toEqual(['/repo/src/a.ts', '/repo/src/b.ts']);
+    });
+  });
+});
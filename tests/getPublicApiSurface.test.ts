@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { buildPublicApiSurface, findPublicEntryPoint, mergePublicApiSurfaces } from '../src/lib/setup/getPublicApiSurface.js';
+
+describe('Public API Surface', () => {
+  const createProject = () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile('/repo/src/index.ts', "export { getUser as fetchUser } from './users';\nexport * from './format';\nexport const VERSION = '1';");
+    project.createSourceFile('/repo/src/users.ts', 'export function getUser() {}\nexport function internalOnly() {}');
+    project.createSourceFile('/repo/src/format.ts', 'export const formatName = () => "";');
+    project.createSourceFile('/repo/src/app.ts', 'export const start = () => {};');
+    return project;
+  };
+
+  it('should resolve named re-exports back to their origin file', () => {
+    const surface = buildPublicApiSurface(createProject(), ['/repo/src/index.ts'], '/repo');
+
+    expect(findPublicEntryPoint(surface, '/repo/src/users.ts', 'getUser')).toBe('src/index.ts');
+    expect(findPublicEntryPoint(surface, '/repo/src/users.ts', 'internalOnly')).toBeUndefined();
+  });
+
+  it('should treat entry points and wildcard re-export targets as fully public', () => {
+    const surface = buildPublicApiSurface(createProject(), ['/repo/src/index.ts'], '/repo');
+
+    expect(findPublicEntryPoint(surface, '/repo/src/index.ts', 'VERSION')).toBe('src/index.ts');
+    // Removed exports are no longer in the head tree, but `export *` would still have exposed them
+    expect(findPublicEntryPoint(surface, '/repo/src/format.ts', 'removedHelper')).toBe('src/index.ts');
+  });
+
+  it('should leave files outside the surface alone', () => {
+    const surface = buildPublicApiSurface(createProject(), ['/repo/src/index.ts'], '/repo');
+
+    expect(findPublicEntryPoint(surface, '/repo/src/app.ts', 'start')).toBeUndefined();
+  });
+
+  it('should keep exports removed at HEAD public through the base-ref surface', () => {
+    const base = createProject();
+    const head = createProject();
+    head.getSourceFileOrThrow('/repo/src/index.ts').replaceWithText("export * from './format';\nexport const VERSION = '1';");
+    head.getSourceFileOrThrow('/repo/src/users.ts').replaceWithText('export function internalOnly() {}');
+
+    const headSurface = buildPublicApiSurface(head, ['/repo/src/index.ts'], '/repo');
+    expect(findPublicEntryPoint(headSurface, '/repo/src/users.ts', 'getUser')).toBeUndefined();
+
+    const merged = mergePublicApiSurfaces(headSurface, buildPublicApiSurface(base, ['/repo/src/index.ts'], '/repo'));
+    expect(findPublicEntryPoint(merged, '/repo/src/users.ts', 'getUser')).toBe('src/index.ts');
+    expect(findPublicEntryPoint(merged, '/repo/src/users.ts', 'internalOnly')).toBeUndefined();
+    expect(findPublicEntryPoint(merged, '/repo/src/index.ts', 'VERSION')).toBe('src/index.ts');
+  });
+});
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, afterEach } from 'vitest';
+import { GitService } from '../src/lib/services/GitService.js';
+import { loadBaseProject } from '../src/lib/setup/loadBaseProject.js';
+
+describe('Base Project', () => {
+  const baseFiles: Record<string, string> = {
+    'src/api.ts': "import { Client } from 'dep';\nexport function connect(client: Client) { return client.url; }",
+    'node_modules/dep/index.d.ts': 'export declare const stale: number;',
+    'README.md': '# Example',
+  };
+
+  const gitService = {
+    listFilesAtRef: () => Object.keys(baseFiles),
+    getFilesFromGit: (_ref: string, files: string[]) => new Map(files.map(file => [file, baseFiles[file]])),
+  } as unknown as GitService;
+
+  let rootDir: string;
+  afterEach(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+  const createRepo = (tsconfig?: object) => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffuse-base-'));
+    fs.mkdirSync(path.join(rootDir, 'node_modules/dep'), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'node_modules/dep/index.d.ts'), 'export interface Client { url: string }');
+    if (tsconfig) fs.writeFileSync(path.join(rootDir, 'tsconfig.json'), JSON.stringify(tsconfig));
+  };
+
+  it('should load source files from the ref and resolve dependencies from disk', () => {
+    createRepo();
+
+    const project = loadBaseProject(gitService, 'main', { rootDir });
+
+    expect(project.getSourceFiles().map(f => path.relative(rootDir, f.getFilePath()))).toEqual(['src/api.ts']);
+    const connect = project.getSourceFileOrThrow(path.join(rootDir, 'src/api.ts')).getFunctionOrThrow('connect');
+    expect(connect.getReturnType().getText()).toBe('string');
+  });
+
+  it('should use the working tree tsconfig', () => {
+    createRepo({ compilerOptions: { strict: true }, include: ['src'] });
+
+    const project = loadBaseProject(gitService, 'main', { rootDir });
+
+    expect(project.getCompilerOptions().strict).toBe(true);
+    expect(project.getSourceFile(path.join(rootDir, 'src/api.ts'))).toBeDefined();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { generateMarkdownReport, generateTerminalReport } from '../src/lib/report.js';
+import { getDefaultConfig } from '../src/lib/config.js';
+import { RiskFactorType } from '../src/lib/constants.js';
+
+describe('Reports', () => {
+  const data = {
+    totalRiskScore: 10,
+    breakingChanges: {
+      scores: {
+        'src/api.ts': {
+          scores: [{ subject: 'getUser', factor: RiskFactorType.ExportRemoved, explanation: 'Export `getUser` was removed' }],
+        },
+      },
+      skippedFiles: { unsupported: [], failed: [], empty: [], tests: [], cosmetic: ['src/format.ts'] },
+    },
+    graphScore: { graphScore: [], totalScore: 0 },
+    lineStats: {
+      'src/api.ts': { added: 1, removed: 1, totalLines: 100 },
+      'src/format.ts': { added: 40, removed: 40, totalLines: 50 },
+    },
+  };
+
+  it('should note cosmetic changes in the terminal report without scoring them', () => {
+    const report = generateTerminalReport(data, getDefaultConfig());
+
+    expect(report).toContain('Cosmetic change: formatting or comments only (0.00 pts)');
+    expect(report).not.toContain('Large change');
+  });
+
+  it('should note cosmetic changes in the markdown report without scoring them', () => {
+    const report = generateMarkdownReport(data, getDefaultConfig());
+
+    expect(report).toContain('## src/format.ts\n_Cosmetic change: formatting or comments only (0.00 pts)_');
+    expect(report).toContain('**Overall Risk Score:** 10.00');
+    expect(report).not.toContain('Large change');
+  });
+
+  it('should keep points that were weighted during analysis', () => {
+    const weighted = {
+      ...data,
+      breakingChanges: {
+        ...data.breakingChanges,
+        scores: {
+          'src/setup.ts': {
+            scores: [{ subject: 'setup.ts:2', factor: RiskFactorType.TopLevelSideEffect, points: 9, explanation: 'Top-level call at line 2: `init();`' }],
+          },
+        },
+      },
+    };
+
+    expect(generateMarkdownReport(weighted, getDefaultConfig())).toContain('- Top-level call at line 2: `init();` (9.00 pts)');
+  });
+
+  it('should list newly deprecated exports in their own section', () => {
+    const deprecated = {
+      ...data,
+      breakingChanges: {
+        ...data.breakingChanges,
+        scores: {
+          'src/api.ts': {
+            scores: [{ subject: 'getUser', factor: RiskFactorType.ExportDeprecated, explanation: 'Export `getUser` was deprecated: Use `fetchUser`.' }],
+          },
+        },
+      },
+    };
+
+    expect(generateMarkdownReport(deprecated, getDefaultConfig())).toContain(
+      '## 🗑️ Newly deprecated\n- `src/api.ts`: Export `getUser` was deprecated: Use `fetchUser`.\n'
+    );
+    expect(generateTerminalReport(deprecated, getDefaultConfig())).toContain('Newly deprecated');
+    expect(generateMarkdownReport(data, getDefaultConfig())).not.toContain('Newly deprecated');
+  });
+});
@@ -0,0 +1,43 @@
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { buildUsageGraph } from '../src/lib/buildUsageGraph.js';
+import { calculateTypeCheckDelta } from '../src/lib/typeCheckDelta.js';
+import { getDefaultConfig } from '../src/lib/config.js';
+import { RiskFactorType } from '../src/lib/constants.js';
+
+describe('Type-check Delta', () => {
+  const oldCode: Record<string, string> = {
+    '/repo/src/util.ts': 'export function add(a: number, b: number) { return a + b; }',
+    '/repo/src/legacy.ts': 'export const legacy = 1;',
+  };
+
+  const createProject = () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile('/repo/src/util.ts', 'export function add(a: number, b: number, c: number) { return a + b + c; }');
+    project.createSourceFile('/repo/src/caller.ts', "import { add } from './util';\nconst broken: string = 1;\nexport const sum = add(1, 2);");
+    project.createSourceFile('/repo/src/orphan.ts', "import { legacy } from './legacy';\nexport const value = legacy;");
+    return project;
+  };
+
+  it('should report errors that only exist at HEAD in dependents of changed files', async () => {
+    const project = createProject();
+    const graph = await buildUsageGraph(project, ['/repo/src/util.ts', '/repo/src/caller.ts', '/repo/src/orphan.ts']);
+
+    const { totalScore, typeCheckScore } = calculateTypeCheckDelta(
+      project,
+      [{ path: '/repo/src/util.ts', status: 'M' }, { path: '/repo/src/legacy.ts', status: 'D' }],
+      graph,
+      (file) => oldCode[file] ?? 'Skipped',
+      { verbose: false },
+      getDefaultConfig()
+    );
+
+    expect(typeCheckScore.map(s => [s.subject, s.explanation])).toEqual([
+      [path.relative(process.cwd(), '/repo/src/caller.ts'), 'New type error TS2554 at line 3: Expected 3 arguments, but got 2.'],
+      [path.relative(process.cwd(), '/repo/src/orphan.ts'), "New type error TS2307 at line 1: Cannot find module './legacy' or its corresponding type declarations."],
+    ]);
+    expect(typeCheckScore.every(s => s.factor === RiskFactorType.TypeCheckError)).toBe(true);
+    expect(totalScore).toBe(24);
+  });
+});